@@ -3,40 +3,88 @@ import path from 'path';
 import crypto from 'crypto';
 import { fileURLToPath } from 'url';
 import { dirname } from 'path';
+import { parseArgs } from 'util';
 import { BufferUtils } from '@nimiq/core';
-import { prompt } from '../src/utils.ts';
+import { prompt, promptSecret } from '../src/utils.ts';
+import { DEFAULT_SALT_ID, getSalt, getSaltEnvVarName } from '../src/config.ts';
+import { encryptSalt, isEncryptedSalt } from '../src/salt-encryption.ts';
+import {
+    getSaltFingerprint,
+    mnemonicPartsToSalt,
+    renderRecoverySheet,
+    saltToMnemonicParts,
+} from '../src/salt-backup.ts';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = dirname(__filename);
 
 const ENV_FILE = path.join(__dirname, '../.env');
+const BACKUP_FOLDER = path.join(__dirname, '../secret');
 const SECRET_SALT_LENGTH = 128; // overkill, but also doesn't hurt
 
-async function createSecret(): Promise<void> {
+/**
+ * Asks for a passphrase and encrypts the salt with it
+ * @param salt - Base64 encoded salt
+ * @returns Encrypted salt, or the unencrypted salt if no passphrase was specified
+ */
+async function promptSaltEncryption(salt: string): Promise<string> {
+    const passphrase = await promptSecret('Passphrase to encrypt the salt with [recommended, leave empty to store the '
+        + 'salt unencrypted]: ');
+    if (!passphrase) return salt;
+    if (await promptSecret('Repeat passphrase: ') !== passphrase) throw new Error('Passphrases do not match');
+    return encryptSalt(salt, passphrase);
+}
+
+/**
+ * Creates a new secret salt, or restores a salt from a backup, and adds it to the .env file
+ * Existing salts of other ids are kept, such that cashlinks of earlier campaigns remain recoverable.
+ * Existing unencrypted salts can be encrypted instead of being replaced.
+ * @param saltId - Id of the salt to create, e.g. the name of a campaign
+ * @param restoredSalt - Base64 encoded salt restored from a backup, instead of creating a new salt
+ * @returns Base64 encoded created or restored salt, or null if the existing salt was kept
+ */
+async function createSecret(saltId: string, restoredSalt?: string): Promise<string | null> {
+    const envVarName = getSaltEnvVarName(saltId);
     let envContent: string | undefined;
     let existingSalt: string | undefined;
 
     // Read existing .env file if it exists
     if (fs.existsSync(ENV_FILE)) {
         envContent = fs.readFileSync(ENV_FILE, 'utf8');
-        existingSalt = envContent.match(/^SALT=(.*)$/m)?.[1];
+        existingSalt = envContent.match(new RegExp(`^${envVarName}=(.*)$`, 'm'))?.[1];
+        if (existingSalt && !isEncryptedSalt(existingSalt) && !restoredSalt
+            && await prompt(`Salt ${saltId} is stored unencrypted. Do you want to encrypt it? [y/N]: `) === 'y') {
+            const encryptedSalt = await promptSaltEncryption(existingSalt);
+            envContent = envContent.replace(new RegExp(`^${envVarName}=.*$`, 'm'), `${envVarName}=${encryptedSalt}`);
+            fs.writeFileSync(ENV_FILE, envContent);
+            console.log(`Secret salt ${saltId} ${encryptedSalt !== existingSalt ? 'encrypted' : 'kept unencrypted'}`);
+            return null;
+        }
         if (existingSalt) {
-            const replace = await prompt('Existing salt found. Do you want to replace it? [y/N]: ');
+            console.log(`Existing salt ${saltId} found. Replacing it makes all Cashlinks created with it `
+                + 'unrecoverable. Consider creating a salt with a different id instead.');
+            const replace = await prompt(`Do you want to replace salt ${saltId}? [y/N]: `);
             if (replace.toLowerCase() !== 'y') {
                 console.log('Keeping existing salt.');
-                return;
+                return null;
             }
         }
     }
 
     // Generate new salt
-    const secretBytes = crypto.randomBytes(SECRET_SALT_LENGTH);
-    const secretBase64 = BufferUtils.toBase64(secretBytes);
+    const secretBase64 = restoredSalt ?? BufferUtils.toBase64(crypto.randomBytes(SECRET_SALT_LENGTH));
+    const storedSalt = await promptSaltEncryption(secretBase64);
 
     // Update or create .env file
-    if (envContent) {
-        // Update existing file
-        envContent = envContent.replace(/^SALT=.*$/m, `SALT=${secretBase64}`);
+    if (envContent && existingSalt) {
+        // Update existing salt
+        envContent = envContent.replace(new RegExp(`^${envVarName}=.*$`, 'm'), `${envVarName}=${storedSalt}`);
+    } else if (envContent) {
+        // Add salt to existing file
+        envContent = envContent.replace(/\n*$/, '\n')
+            + '\n'
+            + `# Salt ${saltId} for cashlink generation (base64 encoded). Must be kept secret.\n`
+            + `${envVarName}=${storedSalt}\n`;
     } else {
         // Create a new file with correct defaults
         envContent = '# Nimiq Node IP address\n'
@@ -51,15 +99,98 @@ async function createSecret(): Promise<void> {
             + '# Length of cashlink tokens in characters\n'
             + 'TOKEN_LENGTH=6\n'
             + '\n'
-            + '# Salt for cashlink generation (base64 encoded). Must be kept secret.\n'
-            + `SALT=${secretBase64}\n`;
+            + '# Optional base url of a custom Hub for cashlinks. Defaults to the public Hub of the selected network.\n'
+            + '# CASHLINK_BASE_URL=https://hub.example.com/cashlink/\n'
+            + '\n'
+            + '# Salts for cashlink generation (base64 encoded). Must be kept secret. SALT is the salt with id\n'
+            + `# "${DEFAULT_SALT_ID}", further salts can be added as SALT_<ID>, e.g. one per campaign.\n`
+            + '# Encrypted salts are decrypted with SALT_PASSPHRASE if set, otherwise the passphrase is requested.\n'
+            + `${envVarName}=${storedSalt}\n`;
     }
 
     // Write to .env file
     fs.writeFileSync(ENV_FILE, envContent);
-    console.log(`Secret salt ${existingSalt ? 'updated' : 'created'} in .env file`);
-    console.log(`New salt: ${secretBase64}`);
+    console.log(`Secret salt ${saltId} ${restoredSalt ? 'restored' : existingSalt ? 'updated' : 'created'} in .env `
+        + `file as ${envVarName}${storedSalt !== secretBase64 ? ', encrypted with your passphrase' : ''}`);
+    // only print the salt if it is stored unencrypted anyway, to keep salts the user chose to encrypt off the terminal.
+    // Note that backups via backupSecret always contain the plaintext salt, see there.
+    if (storedSalt === secretBase64 && !restoredSalt) console.log(`New salt: ${secretBase64}`);
+    return secretBase64;
+}
+
+/**
+ * Prints the mnemonic words of a salt and renders a recovery sheet
+ * The words and the sheet encode the plaintext salt, not the encrypted salt stored in the .env file, such that the salt
+ * can be restored without the passphrase.
+ * @param saltId - Id of the salt
+ * @param salt - Base64 encoded salt
+ */
+function backupSecret(saltId: string, salt: string): void {
+    const parts = saltToMnemonicParts(salt);
+    console.log('\nWarning: the backup words and the recovery sheet contain the plaintext salt. They are not protected '
+        + 'by the passphrase, even if the salt is stored encrypted. Anyone with access to them can recreate and drain '
+        + 'all Cashlinks of this salt.');
+    console.log(`\nBackup words of salt ${saltId} (fingerprint ${getSaltFingerprint(salt)}), `
+        + `in ${parts.length} parts:`);
+    for (const [index, words] of parts.entries()) {
+        console.log(`Part ${index + 1}: ${words.map((word, wordIndex) => `${wordIndex + 1}. ${word}`).join(' ')}`);
+    }
+
+    if (!fs.existsSync(BACKUP_FOLDER)) {
+        fs.mkdirSync(BACKUP_FOLDER, { recursive: true });
+    }
+    const file = path.join(BACKUP_FOLDER, `salt-${saltId}-recovery-sheet.svg`);
+    renderRecoverySheet(saltId, salt, file);
+    console.log(`\nRecovery sheet with the plaintext salt rendered to ${file}. Print it, store it safely and delete `
+        + 'the file afterwards.');
+}
+
+/**
+ * Interactive prompts for the mnemonic words of a salt
+ * Parts with invalid words are requested again.
+ * @returns Base64 encoded salt
+ */
+async function promptSecretWords(): Promise<string> {
+    const parts: string[][] = [];
+    while (true) {
+        // accept numbered words, as printed on the recovery sheet
+        const words = (await promptSecret(`Words of part ${parts.length + 1} (leave empty if all parts have been `
+            + 'entered): ')).toLowerCase().match(/[a-z]+/g) ?? [];
+        if (!words.length) break;
+        try {
+            mnemonicPartsToSalt([...parts, words]);
+            parts.push(words);
+        } catch (error) {
+            console.error(error instanceof Error ? error.message : error);
+        }
+    }
+    return mnemonicPartsToSalt(parts);
 }
 
 // Execute immediately
-await createSecret();
+const { values, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+        'backup': { type: 'boolean' },
+        'restore': { type: 'boolean' },
+    },
+});
+if (values.backup && values.restore) throw new Error('Options --backup and --restore can not be combined');
+
+const saltId = positionals[0]
+    || await prompt(`Id of the ${values.backup || values.restore ? '' : 'new '}salt, e.g. a campaign name `
+        + `[default: "${DEFAULT_SALT_ID}"]: `)
+    || DEFAULT_SALT_ID;
+
+if (values.backup) {
+    backupSecret(saltId, await getSalt(saltId));
+} else if (values.restore) {
+    const salt = await promptSecretWords();
+    console.log(`Restored salt with fingerprint ${getSaltFingerprint(salt)}. Compare it to your recovery sheet.`);
+    await createSecret(saltId, salt);
+} else {
+    const salt = await createSecret(saltId);
+    if (salt && await prompt('Do you want to back up the salt as words and a recovery sheet? [Y/n]: ') !== 'n') {
+        backupSecret(saltId, salt);
+    }
+}
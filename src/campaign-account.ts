@@ -0,0 +1,117 @@
+/**
+ * Nimiq Cashlink Campaign Account
+ * Derives dedicated funding accounts per cashlink campaign from the secret salt.
+ *
+ * Features:
+ * - Deterministic derivation of funding keys from the secret salt and a campaign id
+ * - Multiple funding accounts per campaign, for funding from multiple wallets in parallel
+ * - Campaign account file next to the exported cashlinks, holding public information only
+ * - Waiting for funding accounts to be topped up
+ *
+ * The campaign account keeps funds and transaction histories of campaigns separate, without managing additional keys,
+ * as the funding keys can be recreated from the salt at any time.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { BufferUtils, Hash, KeyPair, PrivateKey, SerialBuffer } from '@nimiq/core';
+import { RpcClient } from './rpc-client.ts';
+import { sleep } from './utils.ts';
+
+export const CAMPAIGN_ACCOUNT_FILENAME = 'campaign-account.json';
+
+const KEY_DERIVATION_DOMAIN = 'cashlink-campaign-funding-key';
+const TOP_UP_POLL_INTERVAL = 10000; // in ms
+
+/**
+ * Public information on the funding accounts of a campaign, from which their keys can be recreated given the salt
+ */
+export interface CampaignAccount {
+    campaignId: string;
+    saltId: string;
+    addresses: string[]; // user friendly addresses, one per funding wallet
+}
+
+/**
+ * Derives the key pair of a campaign funding account
+ * The salt is hashed together with a domain separator, such that the derived keys can not collide with cashlink keys,
+ * which are derived from the token and the salt.
+ * @param salt - Base64 encoded secret salt
+ * @param campaignId - Id of the campaign
+ * @param index - Index of the funding account within the campaign
+ * @returns Key pair of the funding account
+ */
+export function deriveCampaignKeyPair(salt: string, campaignId: string, index: number): KeyPair {
+    const saltBytes = BufferUtils.fromBase64(salt);
+    const domainBytes = BufferUtils.fromUtf8(KEY_DERIVATION_DOMAIN);
+    const campaignIdBytes = BufferUtils.fromUtf8(campaignId);
+    const buffer = new SerialBuffer(saltBytes.length + domainBytes.length + 1 + campaignIdBytes.length + 4);
+    buffer.write(saltBytes);
+    buffer.write(domainBytes);
+    buffer.writeUint8(campaignIdBytes.length);
+    buffer.write(campaignIdBytes);
+    buffer.writeUint32(index);
+    return KeyPair.derive(PrivateKey.deserialize(Hash.computeBlake2b(buffer)));
+}
+
+/**
+ * Derives the funding accounts of a campaign
+ * @param salt - Base64 encoded secret salt
+ * @param campaignId - Id of the campaign
+ * @param count - Number of funding accounts
+ * @returns Key pairs of the funding accounts
+ * @throws If the campaign id is empty or too long
+ */
+export function deriveCampaignKeyPairs(salt: string, campaignId: string, count: number): KeyPair[] {
+    if (!campaignId || BufferUtils.fromUtf8(campaignId).length > 255) {
+        throw new Error('Campaign id must be between 1 and 255 bytes long');
+    }
+    return Array.from({ length: count }, (_, index) => deriveCampaignKeyPair(salt, campaignId, index));
+}
+
+/**
+ * Loads the campaign account of a cashlink folder
+ * @param folder - Folder of the exported cashlinks
+ * @returns Campaign account, or null if the cashlinks were not funded from a campaign account
+ * @throws If the campaign account file is malformed
+ */
+export function loadCampaignAccount(folder: string): CampaignAccount | null {
+    const file = path.join(folder, CAMPAIGN_ACCOUNT_FILENAME);
+    if (!fs.existsSync(file)) return null;
+    const account = JSON.parse(fs.readFileSync(file, 'utf8'));
+    if (typeof account.campaignId !== 'string' || typeof account.saltId !== 'string'
+        || !Array.isArray(account.addresses) || !account.addresses.length) {
+        throw new Error(`Malformed campaign account file ${file}`);
+    }
+    return account as CampaignAccount;
+}
+
+/**
+ * Saves the campaign account of a cashlink folder
+ * @param folder - Folder of the exported cashlinks
+ * @param account - Campaign account to save
+ */
+export function saveCampaignAccount(folder: string, account: CampaignAccount): void {
+    fs.writeFileSync(path.join(folder, CAMPAIGN_ACCOUNT_FILENAME), JSON.stringify(account, null, 4) + '\n');
+}
+
+/**
+ * Waits until an account holds at least the specified balance, by polling its balance
+ * Transactions of the account which are still pending in the mempool are deducted from its balance.
+ * @param address - User friendly address of the account
+ * @param minBalance - Minimum available balance in luna
+ * @param rpcClient - RPC client for balance and mempool queries
+ * @returns Available balance of the account in luna
+ */
+export async function waitForTopUp(address: string, minBalance: number, rpcClient: RpcClient): Promise<number> {
+    const getAvailableBalance = async () =>
+        await rpcClient.getBalance(address) - await rpcClient.getPendingOutgoingAmount(address);
+    let balance = await getAvailableBalance();
+    while (balance < minBalance) {
+        console.log(`Waiting for ${address} to be topped up to ${minBalance / 1e5} NIM, `
+            + `currently holding ${balance / 1e5} NIM available.`);
+        await sleep(TOP_UP_POLL_INTERVAL);
+        balance = await getAvailableBalance();
+    }
+    return balance;
+}
@@ -0,0 +1,66 @@
+/**
+ * Nimiq Cashlink Inspection Handler
+ * Validates cashlink URLs and reports their decoded content.
+ *
+ * Features:
+ * - Decode address, value, message and theme of cashlinks
+ * - Report malformed cashlinks with the reason of the failure
+ * - Warn about themes unknown to the Hub
+ *
+ * The inspection handler allows checking cashlinks without importing them.
+ */
+
+import { Cashlink, CashlinkTheme } from './cashlink.ts';
+import { type CashlinkParseError } from './cashlink-parse-error.ts';
+
+/**
+ * Result of inspecting a single cashlink URL
+ */
+export interface CashlinkInspection {
+    url: string;
+    encodedLength: number; // length of the URL in characters
+    cashlink: Cashlink | null; // null if the cashlink is malformed
+    error: CashlinkParseError | null;
+    warnings: string[];
+}
+
+/**
+ * Inspects a cashlink URL
+ * @param url - Cashlink URL to inspect
+ * @returns Inspection result, including the parse error for malformed cashlinks
+ */
+export function inspectCashlink(url: string): CashlinkInspection {
+    const { cashlink, error } = Cashlink.tryParse(url);
+    const warnings: string[] = [];
+    if (cashlink && cashlink.theme !== CashlinkTheme.UNSPECIFIED && !CashlinkTheme[cashlink.theme]) {
+        warnings.push(`Theme ${cashlink.theme} is unknown to the Hub`);
+    }
+
+    return {
+        url,
+        encodedLength: url.length,
+        cashlink,
+        error,
+        warnings,
+    };
+}
+
+/**
+ * Formats an inspection result into a human-readable string
+ * @param inspection - Inspection result to format
+ * @returns Formatted inspection string
+ */
+export function formatInspection({ url, encodedLength, cashlink, error, warnings }: CashlinkInspection): string {
+    if (!cashlink) {
+        return `${url}\n`
+            + `    Error: ${error?.message} (${error?.reason} at ${error?.location})\n`;
+    }
+
+    return `${url}\n`
+        + `    Address: ${cashlink.address.toUserFriendlyAddress()}\n`
+        + `    Value: ${cashlink.value / 1e5} NIM\n`
+        + `    Message: ${cashlink.message ? `"${cashlink.message}"` : 'none'}\n`
+        + `    Theme: ${CashlinkTheme[cashlink.theme]?.toLowerCase() || 'unknown'} (${cashlink.theme})\n`
+        + `    Encoded length: ${encodedLength} characters (${cashlink.serializedSize} bytes of cashlink data)\n`
+        + warnings.map((warning) => `    Warning: ${warning}\n`).join('');
+}
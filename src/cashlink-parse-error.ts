@@ -0,0 +1,71 @@
+/**
+ * Nimiq Cashlink Parse Errors
+ * Typed errors for malformed cashlinks.
+ *
+ * Features:
+ * - Machine-readable reason codes
+ * - Offsets pointing to the malformed part of a cashlink
+ * - Separate error types for malformed URL encoding and malformed cashlink data
+ *
+ * The parse errors allow tooling to report exactly why a cashlink could not be parsed.
+ */
+
+/**
+ * Reasons for which parsing a cashlink can fail
+ */
+export enum CashlinkParseErrorReason {
+    MISSING_SEPARATOR = 'missing-separator',
+    INVALID_BASE64 = 'invalid-base64',
+    TRUNCATED_KEY = 'truncated-key',
+    INVALID_KEY = 'invalid-key',
+    TRUNCATED_VALUE = 'truncated-value',
+    INVALID_VALUE = 'invalid-value',
+    MESSAGE_OVERFLOW = 'message-overflow',
+    TRAILING_BYTES = 'trailing-bytes',
+}
+
+/**
+ * Base class of all errors thrown when parsing a malformed cashlink
+ */
+export class CashlinkParseError extends Error {
+    readonly reason: CashlinkParseErrorReason;
+    readonly offset: number;
+
+    /**
+     * Create a new cashlink parse error
+     * @param reason - Reason code of the failure
+     * @param offset - Offset of the malformed part, see subclasses for its unit
+     * @param message - Human-readable error message
+     */
+    constructor(reason: CashlinkParseErrorReason, offset: number, message: string) {
+        super(message);
+        this.name = new.target.name;
+        this.reason = reason;
+        this.offset = offset;
+    }
+
+    /** Human-readable location of the error */
+    get location(): string {
+        return `offset ${this.offset}`;
+    }
+}
+
+/**
+ * Error for cashlinks with a malformed URL encoding
+ * The offset is the character offset within the cashlink URL.
+ */
+export class CashlinkEncodingError extends CashlinkParseError {
+    override get location(): string {
+        return `character ${this.offset}`;
+    }
+}
+
+/**
+ * Error for cashlinks with malformed cashlink data
+ * The offset is the byte offset within the base64 decoded cashlink data.
+ */
+export class CashlinkDataError extends CashlinkParseError {
+    override get location(): string {
+        return `byte ${this.offset}`;
+    }
+}
@@ -0,0 +1,67 @@
+/**
+ * Nimiq Cashlink Size Preview
+ * Previews how the message of a cashlink affects the size of the rendered cashlink and its QR code.
+ *
+ * Features:
+ * - Report message size within the message byte budget
+ * - Report the length of the rendered URL and its ~ line breaks
+ * - Report the QR code version and module count for each error correction level
+ * - Warn if the cashlink doesn't fit the coin layout
+ *
+ * The preview allows checking a message before committing to it.
+ */
+
+import { Cashlink } from './cashlink.ts';
+import QrCode from './qr-code.ts';
+import { fitsCoinLayout } from './render-coins.ts';
+
+const MAX_MESSAGE_SIZE = 255; // message length is encoded as uint8
+const QR_EC_LEVELS = ['L', 'M', 'Q', 'H'] as const;
+
+/**
+ * Size preview of a rendered cashlink
+ */
+export interface CashlinkPreview {
+    messageSize: number; // in bytes
+    urlLength: number; // in characters
+    lineBreaks: number; // number of ~ inserted by Cashlink.render
+    qrCodes: Map</* ecLevel */ typeof QR_EC_LEVELS[number], { version: number, moduleCount: number } | null>;
+    fitsCoinLayout: boolean;
+}
+
+/**
+ * Creates a size preview for a cashlink
+ * @param cashlink - Cashlink to preview
+ * @returns Size preview of the rendered cashlink
+ */
+export function previewCashlink(cashlink: Cashlink): CashlinkPreview {
+    const url = cashlink.render();
+    return {
+        messageSize: cashlink.messageSize,
+        urlLength: url.length,
+        lineBreaks: url.split('~').length - 1,
+        qrCodes: new Map(QR_EC_LEVELS.map((ecLevel) => [ecLevel, QrCode.measure(url, ecLevel)])),
+        fitsCoinLayout: fitsCoinLayout(url),
+    };
+}
+
+/**
+ * Formats a size preview into a human-readable string
+ * @param preview - Size preview to format
+ * @returns Formatted preview string
+ */
+export function formatPreview(
+    { messageSize, urlLength, lineBreaks, qrCodes, fitsCoinLayout }: CashlinkPreview,
+): string {
+    return `Message size: ${messageSize} of ${MAX_MESSAGE_SIZE} bytes\n`
+        + `Cashlink length: ${urlLength} characters`
+        + (lineBreaks ? `, broken into ${lineBreaks + 1} parts by ${lineBreaks} ~\n` : '\n')
+        + 'QR code of full Cashlink:\n'
+        + [...qrCodes].map(([ecLevel, qr]) => `    Error correction ${ecLevel}: `
+            + (qr ? `version ${qr.version}, ${qr.moduleCount}x${qr.moduleCount} modules\n` : 'too long to encode\n'),
+        ).join('')
+        + (!fitsCoinLayout
+            ? 'Warning: the full Cashlink is too long to be printed as scannable QR code on coins. Use short links or '
+                + 'a shorter message when rendering coins.\n'
+            : '');
+}
@@ -0,0 +1,82 @@
+/**
+ * Nimiq Cashlink Recovery Handler
+ * Rebuilds cashlinks from their tokens and the secret salt they were created with.
+ *
+ * Features:
+ * - Deterministically derive cashlinks from tokens, using the salt each token was created with
+ * - Check balances of recovered cashlinks
+ * - Report recovered cashlinks that still hold funds
+ *
+ * The recovery handler allows restoring cashlinks for which the exported csv file got lost.
+ */
+
+import { BufferUtils } from '@nimiq/core';
+import { Cashlink } from './cashlink.ts';
+import { RpcClient } from './rpc-client.ts';
+import { getCashlinkBalances } from './cashlink-transaction-handler.ts';
+
+/**
+ * Rebuilds cashlinks from their tokens
+ * @param tokens - Tokens of the cashlinks to recover
+ * @param saltIds - Map of token to the id of the salt the cashlink was created with
+ * @param salts - Map of salt id to base64 encoded secret salt
+ * @param baseUrl - Base URL for the cashlinks
+ * @param cashlinkValue - Value in luna (1 NIM = 100000 luna) the cashlinks were created with
+ * @param cashlinkMessage - Message the cashlinks were created with
+ * @param cashlinkTheme - Theme number the cashlinks were created with
+ * @returns Map of token to Cashlink objects
+ * @throws If the salt of a token is not configured
+ */
+export function recoverCashlinks(
+    tokens: string[],
+    saltIds: Map<string, string>,
+    salts: Map<string, string>,
+    baseUrl: string,
+    cashlinkValue: number,
+    cashlinkMessage: string,
+    cashlinkTheme: number,
+): Map<string, Cashlink> {
+    const secretSalts = new Map<string, Uint8Array>();
+    return new Map(tokens.map((token): [string, Cashlink] => {
+        const saltId = saltIds.get(token)!;
+        if (!secretSalts.has(saltId)) {
+            const salt = salts.get(saltId);
+            if (!salt) throw new Error(`Salt ${saltId} of token ${token} is not configured`);
+            secretSalts.set(saltId, BufferUtils.fromBase64(salt));
+        }
+        const keyPair = Cashlink.deriveKeyPair(token, secretSalts.get(saltId)!);
+        return [token, new Cashlink(baseUrl, keyPair, cashlinkValue, cashlinkMessage, cashlinkTheme)];
+    }));
+}
+
+/**
+ * Checks the balances of recovered cashlinks and logs a summary
+ * @param cashlinks - Map of recovered cashlinks
+ * @param rpcClient - RPC client for balance queries
+ * @returns Map of token to balance in luna
+ */
+export async function checkRecoveredCashlinks(
+    cashlinks: Map<string, Cashlink>,
+    rpcClient: RpcClient,
+): Promise<Map<string, number>> {
+    const balances = await getCashlinkBalances(cashlinks, rpcClient);
+    let funded = 0;
+    let fundedValue = 0;
+    let deviating = 0;
+
+    for (const [token, cashlink] of cashlinks) {
+        const balance = balances.get(token)!;
+        if (balance > 0) {
+            funded++;
+            fundedValue += balance;
+            if (balance !== cashlink.value) {
+                deviating++;
+                console.log(`Cashlink ${token} holds ${balance / 1e5} NIM instead of ${cashlink.value / 1e5} NIM.`);
+            }
+        }
+    }
+
+    console.log(`Checked ${balances.size} Cashlinks, of which ${funded} hold a balance of ${fundedValue / 1e5} NIM `
+        + `in total${deviating ? ` and ${deviating} deviate from the specified value` : ''}.`);
+    return balances;
+}
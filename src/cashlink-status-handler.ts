@@ -0,0 +1,146 @@
+/**
+ * Nimiq Cashlink Status Handler
+ * Reports which cashlinks of a campaign still hold funds, without moving any funds.
+ *
+ * Features:
+ * - Classify cashlinks as unfunded, funded but unclaimed, or emptied
+ * - Tell emptied cashlinks from unfunded ones via the funding journal, or else via their transaction history
+ * - Export the status of each cashlink as csv
+ * - Summarize the funds still held by unclaimed cashlinks
+ *
+ * The status handler mostly requires only the balances of the cashlinks, as opposed to the statistics, which require
+ * the transaction histories of all cashlinks. Transaction histories are only queried for empty cashlinks without a
+ * confirmed funding transaction in the journal.
+ */
+
+import fs from 'fs';
+import { type Transaction as RpcTransaction } from '@blouflash/nimiq-rpc';
+import { type Cashlink } from './cashlink.ts';
+import { type FundingJournal } from './funding-journal.ts';
+import { type RpcClient, TransactionState } from './rpc-client.ts';
+import { getCashlinkBalances } from './cashlink-transaction-handler.ts';
+
+/**
+ * Status of a cashlink
+ */
+export enum CashlinkStatus {
+    UNFUNDED = 'unfunded', // never received a transaction
+    UNCLAIMED = 'funded-unclaimed', // holds a balance
+    EMPTIED = 'emptied', // funded according to the funding journal or transaction history, but holds no balance anymore
+    UNKNOWN = 'unknown (no funding record)', // holds no balance, without funding journal entry or transaction history
+}
+
+/**
+ * Status and balance of a cashlink
+ */
+export interface CashlinkStatusEntry {
+    status: CashlinkStatus;
+    balance: number; // in luna
+}
+
+/**
+ * Classifies cashlinks by their balance and the funding journal
+ * As the balance alone does not tell whether an empty cashlink was funded, empty cashlinks are considered emptied if
+ * their funding transaction is confirmed. Funding transactions which are still pending in the journal, e.g. because
+ * funding was interrupted while tracking them, are checked on the node in parallel. If they can not be checked, the
+ * transaction histories of their cashlinks are checked instead. The journal itself is not updated. Empty
+ * cashlinks without confirmed funding transaction in the journal, e.g. funded before the journal was introduced or
+ * from another machine, are considered emptied if their transaction history contains an incoming transaction, and
+ * unfunded if the history is empty. If the history is unavailable, e.g. because the node does not index it, their
+ * status is unknown.
+ * @param cashlinks - Map of cashlinks to classify
+ * @param journal - Funding journal of the cashlinks
+ * @param rpcClient - RPC client for balance, transaction state and transaction history queries
+ * @returns Status and balance by cashlink token
+ */
+export async function getCashlinkStatuses(
+    cashlinks: Map<string, Cashlink>,
+    journal: FundingJournal,
+    rpcClient: RpcClient,
+): Promise<Map</* token */ string, CashlinkStatusEntry>> {
+    const balances = await getCashlinkBalances(cashlinks, rpcClient);
+    const pendingTransactions = [...cashlinks.keys()]
+        .filter((token) => !balances.get(token) && journal.get(token)?.state === TransactionState.PENDING)
+        .map((token) => journal.get(token)!.transaction);
+    let pendingStates = new Map</* transaction hash */ string, TransactionState>();
+    try {
+        pendingStates = await rpcClient.getTransactionStates(pendingTransactions);
+    } catch (error) {
+        // fall back to the transaction histories of the cashlinks
+        console.log(`Warning: the states of ${pendingTransactions.length} pending funding transactions in the journal `
+            + `could not be checked: ${error instanceof Error ? error.message : String(error)}`);
+    }
+
+    const statuses = new Map</* token */ string, CashlinkStatusEntry>();
+    const unrecordedCashlinks = new Map<string, Cashlink>(); // empty, without confirmed funding in the journal
+    for (const [token, cashlink] of cashlinks) {
+        const balance = balances.get(token)!;
+        if (balance > 0) {
+            statuses.set(token, { status: CashlinkStatus.UNCLAIMED, balance });
+            continue;
+        }
+        const entry = journal.get(token);
+        const wasFunded = entry?.state === TransactionState.CONFIRMED || (entry?.state === TransactionState.PENDING
+            && pendingStates.get(entry.transaction.hash()) === TransactionState.CONFIRMED);
+        statuses.set(token, { status: wasFunded ? CashlinkStatus.EMPTIED : CashlinkStatus.UNKNOWN, balance });
+        if (!wasFunded) unrecordedCashlinks.set(token, cashlink);
+    }
+    if (!unrecordedCashlinks.size) return statuses;
+
+    let histories: Map</* address */ string, RpcTransaction[]>;
+    try {
+        histories = await rpcClient.getTransactionsByAddresses([...unrecordedCashlinks.values()]
+            .map((cashlink) => cashlink.address.toUserFriendlyAddress()));
+    } catch (error) {
+        console.log(`Warning: the transaction histories of ${unrecordedCashlinks.size} empty Cashlinks without a `
+            + 'funding record are unavailable, e.g. because the node does not index them, such that their status is '
+            + `unknown: ${error instanceof Error ? error.message : String(error)}`);
+        return statuses;
+    }
+    for (const [token, cashlink] of unrecordedCashlinks) {
+        const address = cashlink.address.toUserFriendlyAddress();
+        const wasFunded = histories.get(address)!
+            .some(({ to: recipient, timestamp }) => recipient === address && !!timestamp);
+        statuses.set(token, {
+            status: wasFunded ? CashlinkStatus.EMPTIED : CashlinkStatus.UNFUNDED,
+            balance: balances.get(token)!,
+        });
+    }
+    return statuses;
+}
+
+/**
+ * Exports the status of each cashlink
+ * Each line has the format token,address,valueNim,balanceNim,status.
+ * @param cashlinks - Map of the classified cashlinks
+ * @param statuses - Status and balance by cashlink token
+ * @param file - Output file path
+ */
+export function exportCashlinkStatus(
+    cashlinks: Map<string, Cashlink>,
+    statuses: Map</* token */ string, CashlinkStatusEntry>,
+    file: string,
+): void {
+    fs.writeFileSync(file, [...statuses].map(([token, { status, balance }]) => {
+        const cashlink = cashlinks.get(token)!;
+        return `${token},${cashlink.address.toUserFriendlyAddress()},${cashlink.value / 1e5},${balance / 1e5},`
+            + `${status}\n`;
+    }).join(''));
+}
+
+/**
+ * Formats a summary of the cashlink statuses
+ * @param statuses - Status and balance by cashlink token
+ * @returns Formatted summary string
+ */
+export function formatStatusSummary(statuses: Map</* token */ string, CashlinkStatusEntry>): string {
+    const entries = [...statuses.values()];
+    const count = (status: CashlinkStatus) => entries.filter((entry) => entry.status === status).length;
+    const outstanding = entries.reduce((sum, { balance }) => sum + balance, 0);
+    return `${statuses.size} Cashlinks: `
+        + `${count(CashlinkStatus.UNFUNDED)} unfunded, `
+        + `${count(CashlinkStatus.UNCLAIMED)} funded but unclaimed, `
+        + `${count(CashlinkStatus.EMPTIED)} emptied`
+        + (count(CashlinkStatus.UNKNOWN) ? `, ${count(CashlinkStatus.UNKNOWN)} unknown (no funding record).\n` : '.\n')
+        + `${outstanding / 1e5} NIM are still held by unclaimed Cashlinks.\n`;
+}
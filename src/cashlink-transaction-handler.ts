@@ -7,81 +7,720 @@
  * - Claim unclaimed cashlinks to a specified address
  * - Handle transaction signing and submission
  * - Support for transaction metadata
+ * - Resume interrupted funding runs via a funding journal
+ * - Free and paid funding with a limited number of parallel pending transactions
+ * - Fund from multiple wallets in parallel, each with its own limit of pending transactions
+ * - Dry runs, which build and sign all transactions without sending them
+ * - Offline signing of funding transactions and broadcasting them later
+ * - Unsigned funding transactions from multisig accounts, for signing by their co-signers
+ * - Pre-flight balance checks including fees and pending outgoing transactions
+ * - Free and paid claiming, with the fee deducted from the claimed balance
+ * - Claiming which continues when single cashlinks fail, e.g. when claimed by their holders at the same time
+ * - Balance snapshots of many cashlinks, scanned in parallel
  *
  * The transaction handler ensures proper funding and claiming of cashlinks.
  */
 
-import { KeyPair, PrivateKey, Address } from '@nimiq/core';
+import { KeyPair, PrivateKey, Address, BufferUtils, Policy, type Transaction } from '@nimiq/core';
 import { Cashlink, CashlinkExtraData } from './cashlink.ts';
-import { RpcClient } from './rpc-client.ts';
+import {
+    RpcClient,
+    TransactionState,
+    buildTransaction,
+    signTransaction,
+    type RawTransactionParams,
+} from './rpc-client.ts';
+import { FundingJournal } from './funding-journal.ts';
+import {
+    countTransactions,
+    handleFailedPoll,
+    updateTransactionStates,
+    type TrackedTransaction,
+    type TrackedTransactions,
+} from './transaction-tracker.ts';
+import { sleep } from './utils.ts';
 
 /**
- * Funds multiple cashlinks from a single wallet
+ * Funding modes, which determine the fee and how many funding transactions can be pending in parallel
+ */
+export enum FundingMode {
+    FREE = 'free',
+    PAID = 'paid',
+}
+
+/**
+ * Maximum number of pending transactions per sender in the mempool of the node, depending on the funding mode
+ */
+export const MAX_PENDING_TRANSACTIONS: Record<FundingMode, number> = {
+    [FundingMode.FREE]: 10,
+    [FundingMode.PAID]: 500,
+};
+
+const PENDING_TRANSACTIONS_POLL_INTERVAL = 2000; // in ms
+const DEFAULT_FEE_PER_BYTE = 1; // in luna
+
+/**
+ * Computes the default fee of paid funding and claiming transactions, i.e. 1 luna per byte of a signed transaction
+ * Funding and claiming transactions have the same size, as their extra data has the same length and their values and
+ * fees are encoded with a fixed size. Transactions of multisig accounts are larger due to their signature proofs.
+ * @returns Default fee per transaction in luna
+ */
+export function getDefaultTransactionFee(): number {
+    const sampleTransaction = signTransaction({
+        sender: KeyPair.generate(),
+        recipient: KeyPair.generate().toAddress(),
+        value: 1,
+        data: CashlinkExtraData.FUNDING,
+    }, 0, 0);
+    return sampleTransaction.serializedSize * DEFAULT_FEE_PER_BYTE;
+}
+
+/**
+ * Collects the transactions of a dry run, which are built and signed, but neither sent nor recorded in the journal
+ */
+export interface DryRun {
+    transactions: Map</* token */ string, Transaction>;
+    skipped: Map</* token */ string, /* reason */ string>;
+}
+
+/**
+ * Creates an empty dry run
+ * @returns Dry run without transactions
+ */
+export function createDryRun(): DryRun {
+    return { transactions: new Map(), skipped: new Map() };
+}
+
+/**
+ * Formats a report of a dry run, listing all transactions and skipped cashlinks
+ * @param dryRun - Dry run to report
+ * @param label - Label of the transactions, e.g. "funding"
+ * @returns Formatted report string
+ */
+export function formatDryRun(dryRun: DryRun, label: string): string {
+    const transactions = [...dryRun.transactions.values()];
+    const totalValue = transactions.reduce((sum, transaction) => sum + Number(transaction.value), 0);
+    const totalFees = transactions.reduce((sum, transaction) => sum + Number(transaction.fee), 0);
+    let report = '';
+    for (const [token, transaction] of dryRun.transactions) {
+        report += `    ${token}: ${transaction.sender.toUserFriendlyAddress()} -> `
+            + `${transaction.recipient.toUserFriendlyAddress()}, ${Number(transaction.value) / 1e5} NIM, `
+            + `fee ${Number(transaction.fee) / 1e5} NIM, hash ${transaction.hash()}\n`;
+    }
+    for (const [token, reason] of dryRun.skipped) {
+        report += `    ${token}: skipped, ${reason}\n`;
+    }
+    return report + `${transactions.length} ${label} transactions with a total value of ${totalValue / 1e5} NIM and `
+        + `total fees of ${totalFees / 1e5} NIM, ${dryRun.skipped.size} Cashlinks skipped.\n`;
+}
+
+/**
+ * Result of the pre-flight balance check of a funding account
+ */
+export interface FundingPreflight {
+    address: string;
+    balance: number; // in luna
+    pendingOutgoing: number; // value and fees of the account's transactions pending in the mempool, in luna
+    required: number; // value and fees of the funding transactions, in luna
+    fundable: number; // number of funding transactions covered by the available balance, in funding order
+    total: number; // number of funding transactions
+}
+
+/**
+ * Checks whether a funding account can cover its funding transactions, considering fees and its transactions which
+ * are still pending in the mempool, such that funding does not run out of balance part-way
+ * @param address - User friendly address of the funding account
+ * @param costs - Value plus fee of each funding transaction, in funding order, in luna
+ * @param rpcClient - RPC client for balance and mempool queries
+ * @returns Pre-flight result
+ */
+export async function preflightFunding(
+    address: string,
+    costs: number[],
+    rpcClient: RpcClient,
+): Promise<FundingPreflight> {
+    const balance = await rpcClient.getBalance(address);
+    const pendingOutgoing = await rpcClient.getPendingOutgoingAmount(address);
+    let remaining = balance - pendingOutgoing;
+    let fundable = 0;
+    for (const cost of costs) {
+        if (cost > remaining) break;
+        remaining -= cost;
+        fundable++;
+    }
+    return {
+        address,
+        balance,
+        pendingOutgoing,
+        required: costs.reduce((sum, cost) => sum + cost, 0),
+        fundable,
+        total: costs.length,
+    };
+}
+
+/**
+ * Formats the result of a pre-flight balance check
+ * @param preflight - Pre-flight result
+ * @returns Formatted string, suggesting how many cashlinks can be funded if the balance is insufficient
+ */
+export function formatFundingPreflight(preflight: FundingPreflight): string {
+    const { address, balance, pendingOutgoing, required, fundable, total } = preflight;
+    return `Using address ${address} with balance ${balance / 1e5}`
+        + (pendingOutgoing ? ` of which ${pendingOutgoing / 1e5} NIM are pending outgoing` : '')
+        + `, requiring ${required / 1e5} NIM including fees for ${total} funding transactions.`
+        + (fundable < total
+            ? `\nThe available balance of ${(balance - pendingOutgoing) / 1e5} NIM only suffices for funding `
+                + `${fundable} of ${total} Cashlinks. Top up ${(required - balance + pendingOutgoing) / 1e5} NIM.`
+            : '');
+}
+
+/**
+ * Funding state of a cashlink: CONFIRMED if it is funded, PENDING if its funding is pending, or null if it needs to be
+ * funded
+ */
+type FundingState = TransactionState.CONFIRMED | TransactionState.PENDING | null;
+
+/**
+ * Checks whether cashlinks are already funded or have a funding transaction which might still get included, according
+ * to the funding journal and their balances. The journaled transactions and the balances are each checked in parallel,
+ * with retries. Pending transactions which were dropped by the node are resent as is, which can not result in double
+ * funding, as the resent transaction has the same hash. Rejected transactions are checked, too, as they might still
+ * get included if the rejection was caused by a connection issue. Only expired transactions are safe to replace by a
+ * new funding transaction.
+ * @param cashlinks - Map of cashlinks to check
+ * @param journal - Funding journal
+ * @param rpcClient - RPC client for transaction state and balance queries
+ * @param dryRun - Whether to only check the states, without resending transactions or updating the journal
+ * @returns Funding states by cashlink token
+ * @throws If the states or balances can not be checked after all retries, or a dropped transaction is rejected
+ */
+async function getFundingStates(
+    cashlinks: Map<string, Cashlink>,
+    journal: FundingJournal,
+    rpcClient: RpcClient,
+    dryRun = false,
+): Promise<Map</* token */ string, FundingState>> {
+    const fundingStates = new Map</* token */ string, FundingState>();
+    const isUncertain = (state?: TransactionState) => state === TransactionState.PENDING
+        || state === TransactionState.REJECTED;
+    const transactionStates = await rpcClient.getTransactionStates([...cashlinks.keys()]
+        .filter((token) => isUncertain(journal.get(token)?.state))
+        .map((token) => journal.get(token)!.transaction));
+
+    const unfundedCashlinks = new Map<string, Cashlink>(); // to check the balances of
+    for (const [token, cashlink] of cashlinks) {
+        const entry = journal.get(token);
+        if (entry?.state === TransactionState.CONFIRMED) {
+            fundingStates.set(token, TransactionState.CONFIRMED);
+            continue;
+        }
+        if (entry && isUncertain(entry.state)) {
+            let state = transactionStates.get(entry.transaction.hash())!;
+            if (state === TransactionState.DROPPED) {
+                try {
+                    if (!dryRun) await rpcClient.sendRawTransaction(entry.transaction);
+                } catch (error) {
+                    const expiry = entry.transaction.validityStartHeight + Policy.TRANSACTION_VALIDITY_WINDOW_BLOCKS;
+                    throw new Error(`Funding transaction of Cashlink ${token} is valid until block ${expiry}, but the `
+                        + 'node rejects it: ' + (error instanceof Error ? error.message : String(error)) + '. Funding '
+                        + 'the Cashlink anew before it expired could fund it twice.');
+                }
+                state = TransactionState.PENDING;
+            }
+            if (state !== entry.state && !dryRun) journal.record(token, entry.transaction, state);
+            if (state === TransactionState.PENDING || state === TransactionState.CONFIRMED) {
+                fundingStates.set(token, state);
+                continue;
+            }
+        }
+        unfundedCashlinks.set(token, cashlink);
+    }
+
+    // also check the balances, in case the cashlinks were funded by other means
+    const balances = await getCashlinkBalances(unfundedCashlinks, rpcClient);
+    for (const [token, cashlink] of unfundedCashlinks) {
+        const balance = balances.get(token)!;
+        if (balance > 0 && balance !== cashlink.value) {
+            console.log(`Cashlink ${token} holds ${balance / 1e5} NIM instead of ${cashlink.value / 1e5} NIM.`);
+        }
+        fundingStates.set(token, balance > 0 ? TransactionState.CONFIRMED : null);
+    }
+    return fundingStates;
+}
+
+/**
+ * Takes a snapshot of the balances of cashlinks, querying them in parallel
+ * @param cashlinks - Map of cashlinks to check
+ * @param rpcClient - RPC client for balance queries
+ * @returns Balances in luna by cashlink token
+ */
+export async function getCashlinkBalances(
+    cashlinks: Map<string, Cashlink>,
+    rpcClient: RpcClient,
+): Promise<Map</* token */ string, number>> {
+    const tokens = [...cashlinks.keys()];
+    const addresses = [...cashlinks.values()].map((cashlink) => cashlink.address.toUserFriendlyAddress());
+    const addressBalances = await rpcClient.getBalances(addresses, (checked) => {
+        if (checked !== cashlinks.size && checked % Math.ceil(cashlinks.size / 10) === 0) {
+            console.log(`Checked ${checked} Cashlinks so far.`);
+        }
+    });
+    return new Map(tokens.map((token, index) => [token, addressBalances.get(addresses[index])!]));
+}
+
+/**
+ * Splits cashlinks into one batch per funding wallet, assigning them alternately, such that cashlinks of the same tier
+ * are spread evenly across the wallets
+ * @param cashlinks - Map of cashlinks to split
+ * @param walletCount - Number of funding wallets
+ * @returns List of batches, one per wallet
+ */
+export function splitCashlinks(cashlinks: Map<string, Cashlink>, walletCount: number): Map<string, Cashlink>[] {
+    const batches = Array.from({ length: walletCount }, () => new Map<string, Cashlink>());
+    [...cashlinks].forEach(([token, cashlink], index) => batches[index % walletCount].set(token, cashlink));
+    return batches;
+}
+
+/**
+ * Waits until less than the maximum number of transactions are pending, by polling the mempool of the node
+ * @param transactions - Tracked funding transactions of a single funding wallet, updated in place
+ * @param maxPendingTransactions - Maximum number of pending transactions
+ * @param journal - Funding journal
+ * @param rpcClient - RPC client for mempool and transaction state queries
+ * @throws If the maximum number of consecutive polls of the node failed
+ */
+async function waitForPendingTransactions(
+    transactions: TrackedTransactions,
+    maxPendingTransactions: number,
+    journal: FundingJournal,
+    rpcClient: RpcClient,
+): Promise<void> {
+    let failedPolls = 0;
+    while (countTransactions(transactions, TransactionState.PENDING) >= maxPendingTransactions) {
+        await sleep(PENDING_TRANSACTIONS_POLL_INTERVAL);
+        try {
+            await updateTransactionStates(transactions, rpcClient, journal);
+            failedPolls = 0;
+        } catch (error) {
+            failedPolls = handleFailedPoll(error, failedPolls);
+        }
+    }
+}
+
+/**
+ * Progress of a funding run, shared by the funding wallets
+ */
+interface FundingProgress {
+    total: number;
+    processed: number;
+    sent: number;
+}
+
+/**
+ * Funds a batch of cashlinks from a single wallet
+ * @param cashlinks - Map of cashlinks to fund
+ * @param getTransaction - Returns the signed funding transaction of a cashlink, for example by creating it
+ * @param sender - Key pair of the funding wallet, if known, for rebuilding expired transactions
+ * @param maxPendingTransactions - Maximum number of pending transactions of the funding wallet
+ * @param fundingStates - Funding states of the cashlinks when resuming, for skipping cashlinks with an existing funding
+ *     transaction or balance
+ * @param transactions - Tracked funding transactions of all wallets, updated in place
+ * @param progress - Progress of the funding run, updated in place
+ * @param rpcClient - RPC client for transaction submission
+ * @param journal - Funding journal of the cashlinks
+ * @param dryRun - Optional dry run to collect the transactions in, instead of sending them
+ */
+async function fundCashlinkBatch(
+    cashlinks: Map<string, Cashlink>,
+    getTransaction: (token: string, cashlink: Cashlink) => Promise<Transaction>,
+    sender: KeyPair | undefined,
+    maxPendingTransactions: number,
+    fundingStates: Map</* token */ string, FundingState> | undefined,
+    transactions: TrackedTransactions,
+    progress: FundingProgress,
+    rpcClient: RpcClient,
+    journal: FundingJournal,
+    dryRun?: DryRun,
+): Promise<void> {
+    // the transactions of this wallet, for limiting its pending transactions, sharing the tracked objects with the
+    // transactions of all wallets, such that state updates apply to both
+    const senderTransactions: TrackedTransactions = new Map();
+    const track = (token: string, tracked: TrackedTransaction) => {
+        senderTransactions.set(token, tracked);
+        transactions.set(token, tracked);
+    };
+
+    for (const [token, cashlink] of cashlinks) {
+        progress.processed++;
+        const fundingState = fundingStates?.get(token) ?? null;
+        if (dryRun) {
+            if (fundingState === TransactionState.CONFIRMED) dryRun.skipped.set(token, 'already funded');
+            if (fundingState === TransactionState.PENDING) dryRun.skipped.set(token, 'funding pending');
+            if (fundingState === null) dryRun.transactions.set(token, await getTransaction(token, cashlink));
+        } else if (fundingState === TransactionState.PENDING) {
+            // pending transactions of previous runs also occupy the mempool
+            const { transaction } = journal.get(token)!;
+            track(token, { sender, transaction, state: fundingState });
+        } else if (fundingState === null) {
+            await waitForPendingTransactions(senderTransactions, maxPendingTransactions, journal, rpcClient);
+            const transaction = await getTransaction(token, cashlink);
+            // record before sending, such that the transaction is known even if the process crashes while sending
+            journal.record(token, transaction, TransactionState.PENDING);
+            try {
+                await rpcClient.sendRawTransaction(transaction);
+            } catch (error) {
+                // stop funding from this wallet, as further transactions would most likely be rejected, too, e.g. for
+                // lack of balance
+                console.error(`Funding transaction of Cashlink ${token} was rejected:`,
+                    error instanceof Error ? error.message : error);
+                journal.record(token, transaction, TransactionState.REJECTED);
+                track(token, { sender, transaction, state: TransactionState.REJECTED });
+                break;
+            }
+            track(token, { sender, transaction, state: TransactionState.PENDING });
+            progress.sent++;
+        }
+
+        if (!dryRun && progress.processed !== progress.total
+            && progress.processed % Math.ceil(progress.total / 20) === 0) {
+            console.log(`Processed ${progress.processed} Cashlinks so far. ${progress.sent} funding transactions `
+                + `sent, ${countTransactions(transactions, TransactionState.PENDING)} pending.`);
+        }
+    }
+}
+
+/**
+ * Funds multiple cashlinks from one or multiple wallets
+ * Each funding transaction is recorded in the funding journal before it is sent. If the journal already has entries,
+ * the funding is resumed, skipping cashlinks with a confirmed or pending funding transaction or an existing balance.
+ * The number of parallel pending transactions per wallet is limited according to the funding mode, which is free for a
+ * zero fee and paid otherwise. With multiple wallets, the cashlinks are split via splitCashlinks and the batches are
+ * funded in parallel, which multiplies the number of parallel pending transactions.
  * @param cashlinks - Map of cashlinks to fund
  * @param txFee - Transaction fee in luna
- * @param privateKey - Private key of funding wallet
+ * @param privateKeys - Private keys of the funding wallets
  * @param rpcClient - RPC client for transaction submission
+ * @param journal - Funding journal of the cashlinks
+ * @param dryRun - Optional dry run to collect the transactions in, instead of sending them
+ * @returns Funding transactions sent in this run or pending from previous runs, for tracking their confirmation. Empty
+ *     for dry runs.
  */
 export async function fundCashlinks(
     cashlinks: Map<string, Cashlink>,
     txFee: number,
-    privateKey: PrivateKey,
+    privateKeys: PrivateKey[],
     rpcClient: RpcClient,
-): Promise<void> {
-    const keyPair = KeyPair.derive(privateKey);
+    journal: FundingJournal,
+    dryRun?: DryRun,
+): Promise<TrackedTransactions> {
+    if (!privateKeys.length) throw new Error('No funding wallet specified');
+    const resume = journal.size > 0;
+    const maxPendingTransactions = MAX_PENDING_TRANSACTIONS[txFee > 0 ? FundingMode.PAID : FundingMode.FREE];
+    const transactions: TrackedTransactions = new Map();
+    const progress: FundingProgress = { total: cashlinks.size, processed: 0, sent: 0 };
 
-    let sent = 0;
-    for (const cashlink of cashlinks.values()) {
-        await rpcClient.sendTransaction({
-            sender: keyPair,
+    if (resume) console.log('Checking the funding states of the Cashlinks');
+    const fundingStates = resume ? await getFundingStates(cashlinks, journal, rpcClient, !!dryRun) : undefined;
+    const batches = splitCashlinks(cashlinks, privateKeys.length);
+    await Promise.all(batches.map((batch, index) => {
+        const sender = KeyPair.derive(privateKeys[index]);
+        const createFundingTransaction = (token: string, cashlink: Cashlink) => rpcClient.createTransaction({
+            sender,
             recipient: cashlink.address,
             value: cashlink.value,
             fee: txFee,
             data: CashlinkExtraData.FUNDING,
         });
+        return fundCashlinkBatch(batch, createFundingTransaction, sender, maxPendingTransactions, fundingStates,
+            transactions, progress, rpcClient, journal, dryRun);
+    }));
+
+    if (dryRun) return transactions;
+    console.log(`${progress.sent} Cashlink funding transactions sent` + (resume
+        ? `, ${progress.processed - progress.sent} Cashlinks were already funded or pending.`
+        : '.'));
+    return transactions;
+}
 
-        sent++;
-        if (sent !== cashlinks.size && sent % Math.ceil(cashlinks.size / 20) === 0) {
-            console.log(`${sent} Cashlink funding transactions sent so far.`);
+/**
+ * Builds funding transactions for all cashlinks without a confirmed or pending funding transaction in the journal
+ * @param cashlinks - Map of cashlinks to fund
+ * @param journal - Funding journal of the cashlinks
+ * @param build - Builds the funding transaction of a cashlink
+ * @returns Funding transactions by cashlink token
+ */
+function buildFundingTransactions(
+    cashlinks: Map<string, Cashlink>,
+    journal: FundingJournal,
+    build: (params: Omit<RawTransactionParams, 'sender'>) => Transaction,
+): Map</* token */ string, Transaction> {
+    const transactions = new Map</* token */ string, Transaction>();
+    for (const [token, cashlink] of cashlinks) {
+        const state = journal.get(token)?.state;
+        if (state === TransactionState.CONFIRMED || state === TransactionState.PENDING) continue;
+        transactions.set(token, build({
+            recipient: cashlink.address,
+            value: cashlink.value,
+            data: CashlinkExtraData.FUNDING,
+        }));
+    }
+    return transactions;
+}
+
+/**
+ * Signs funding transactions without requiring a connection to a node, for sending them later via
+ * broadcastFundingTransactions
+ * Cashlinks with a confirmed or pending funding transaction in the funding journal are skipped. Balances can not be
+ * checked offline, which is why broadcastFundingTransactions checks them before sending.
+ * @param cashlinks - Map of cashlinks to fund
+ * @param txFee - Transaction fee in luna
+ * @param privateKey - Private key of the funding wallet
+ * @param validityStartHeight - Block height from which on the transactions are valid
+ * @param networkId - Id of the network the transactions are valid in
+ * @param journal - Funding journal of the cashlinks
+ * @returns Signed funding transactions by cashlink token
+ */
+export function signFundingTransactions(
+    cashlinks: Map<string, Cashlink>,
+    txFee: number,
+    privateKey: PrivateKey,
+    validityStartHeight: number,
+    networkId: number,
+    journal: FundingJournal,
+): Map</* token */ string, Transaction> {
+    const sender = KeyPair.derive(privateKey);
+    return buildFundingTransactions(cashlinks, journal, (params) =>
+        signTransaction({ ...params, sender, fee: txFee }, validityStartHeight, networkId));
+}
+
+/**
+ * Builds unsigned funding transactions from a multisig account, to be signed by its co-signers and sent later via
+ * broadcastFundingTransactions
+ * Cashlinks with a confirmed or pending funding transaction in the funding journal are skipped.
+ * @param cashlinks - Map of cashlinks to fund
+ * @param txFee - Transaction fee in luna
+ * @param multisigAddress - Address of the multisig funding account
+ * @param validityStartHeight - Block height from which on the transactions are valid
+ * @param networkId - Id of the network the transactions are valid in
+ * @param journal - Funding journal of the cashlinks
+ * @returns Unsigned funding transactions by cashlink token
+ */
+export function buildMultisigFundingTransactions(
+    cashlinks: Map<string, Cashlink>,
+    txFee: number,
+    multisigAddress: Address,
+    validityStartHeight: number,
+    networkId: number,
+    journal: FundingJournal,
+): Map</* token */ string, Transaction> {
+    return buildFundingTransactions(cashlinks, journal, (params) =>
+        buildTransaction(multisigAddress, { ...params, fee: txFee }, validityStartHeight, networkId));
+}
+
+/**
+ * Sends previously signed funding transactions, with the same journaling, resumption and limits of pending
+ * transactions as fundCashlinks
+ * The transactions are grouped by their sender, with the limit of pending transactions applying per sender. As the
+ * private keys are not known, expired transactions can not be rebuilt, but need to be signed again.
+ * @param cashlinks - Map of cashlinks to fund
+ * @param signedTransactions - Signed funding transactions by cashlink token
+ * @param rpcClient - RPC client for transaction submission
+ * @param journal - Funding journal of the cashlinks
+ * @returns Funding transactions sent in this run or pending from previous runs, for tracking their confirmation
+ * @throws If a signed transaction does not match the funding of its cashlink
+ */
+export async function broadcastFundingTransactions(
+    cashlinks: Map<string, Cashlink>,
+    signedTransactions: Map</* token */ string, Transaction>,
+    rpcClient: RpcClient,
+    journal: FundingJournal,
+): Promise<TrackedTransactions> {
+    const batches = new Map</* sender address */ string, Map<string, Cashlink>>();
+    const signedCashlinks = new Map<string, Cashlink>();
+    for (const [token, transaction] of signedTransactions) {
+        const cashlink = cashlinks.get(token);
+        if (!cashlink) throw new Error(`Signed transaction for unknown Cashlink ${token}`);
+        if (!transaction.recipient.equals(cashlink.address) || Number(transaction.value) !== cashlink.value
+            || BufferUtils.toHex(transaction.data) !== BufferUtils.toHex(CashlinkExtraData.FUNDING)) {
+            throw new Error(`Signed transaction of Cashlink ${token} does not match its funding`);
         }
+        const sender = transaction.sender.toUserFriendlyAddress();
+        batches.set(sender, (batches.get(sender) || new Map()).set(token, cashlink));
+        signedCashlinks.set(token, cashlink);
+    }
+
+    const transactions: TrackedTransactions = new Map();
+    const progress: FundingProgress = { total: signedTransactions.size, processed: 0, sent: 0 };
+    // always check the funding states, as the balances could not be checked when signing offline
+    console.log('Checking the funding states of the Cashlinks');
+    const fundingStates = await getFundingStates(signedCashlinks, journal, rpcClient);
+    await Promise.all([...batches.values()].map((batch) => {
+        const isPaid = [...batch.keys()].every((token) => signedTransactions.get(token)!.fee > 0n);
+        return fundCashlinkBatch(batch, async (token) => signedTransactions.get(token)!, undefined,
+            MAX_PENDING_TRANSACTIONS[isPaid ? FundingMode.PAID : FundingMode.FREE], fundingStates, transactions,
+            progress, rpcClient, journal);
+    }));
+
+    console.log(`${progress.sent} Cashlink funding transactions sent, `
+        + `${progress.processed - progress.sent} Cashlinks were already funded or pending.`);
+    return transactions;
+}
+
+/**
+ * Outcome of claiming a single cashlink
+ */
+export enum ClaimOutcome {
+    CLAIMED = 'claimed', // claiming transaction built, and sent unless in a dry run
+    EMPTY = 'empty',
+    BELOW_FEE = 'balance below fee',
+    CLAIMED_BY_USER = 'claimed by user meanwhile',
+    INSUFFICIENT_BALANCE = 'insufficient balance',
+    EXPIRED = 'expired', // sent, but expired without being included, while the cashlink still holds its balance
+    NODE_ERROR = 'node error',
+}
+
+/**
+ * Result of claiming cashlinks
+ */
+export interface ClaimResult {
+    transactions: TrackedTransactions; // sent claiming transactions, for tracking their confirmation
+    outcomes: Map</* token */ string, ClaimOutcome>;
+}
+
+/**
+ * Determines why claiming a cashlink failed, by checking its balance again
+ * @param address - User friendly address of the cashlink which failed to be claimed
+ * @param required - Value plus fee of the claiming transaction in luna
+ * @param rpcClient - RPC client for balance queries
+ * @returns Outcome classifying the failure
+ */
+async function classifyClaimFailure(address: string, required: number, rpcClient: RpcClient): Promise<ClaimOutcome> {
+    try {
+        const balance = await rpcClient.getBalance(address);
+        if (balance === 0) return ClaimOutcome.CLAIMED_BY_USER;
+        if (balance < required) return ClaimOutcome.INSUFFICIENT_BALANCE;
+    } catch (error) {
+        // the node failed to answer, too
     }
-    console.log(`${sent} Cashlink funding transactions sent.`);
+    return ClaimOutcome.NODE_ERROR;
 }
 
 /**
  * Claims unclaimed cashlinks to a specified address
+ * For paid claiming, the fee is deducted from the balance of each cashlink, and cashlinks which do not hold more than
+ * the fee are skipped. Failures of single cashlinks, e.g. because a user claimed a cashlink in the meantime, are
+ * classified and reported, and claiming continues with the remaining cashlinks.
  * @param cashlinks - Map of cashlinks to check and claim
  * @param recipient - Address to receive claimed funds
+ * @param txFee - Fee per claiming transaction in luna, zero for free claiming
  * @param rpcClient - RPC client for transaction submission
+ * @param dryRun - Optional dry run to collect the transactions in, instead of sending them
+ * @param balances - Optional snapshot of the balances of the cashlinks, which are otherwise checked first
+ * @returns Sent claiming transactions, empty for dry runs, and the outcome per cashlink
  */
 export async function claimCashlinks(
     cashlinks: Map<string, Cashlink>,
     recipient: Address,
+    txFee: number,
     rpcClient: RpcClient,
-): Promise<void> {
+    dryRun?: DryRun,
+    balances?: Map</* token */ string, number>,
+): Promise<ClaimResult> {
+    const transactions: TrackedTransactions = new Map();
+    const outcomes = new Map</* token */ string, ClaimOutcome>();
     let processed = 0;
     let unclaimed = 0;
+    balances ??= await getCashlinkBalances(cashlinks, rpcClient);
 
-    for (const cashlink of cashlinks.values()) {
+    for (const [token, cashlink] of cashlinks) {
         processed++;
-        const cashlinkAddress = cashlink.address;
-        const cashlinkBalance = await rpcClient.getBalance(cashlinkAddress.toUserFriendlyAddress());
-
-        if (cashlinkBalance > 0) {
-            unclaimed++;
-            await rpcClient.sendTransaction({
-                sender: cashlink.keyPair,
-                recipient,
-                value: cashlinkBalance,
-                fee: 0,
-                data: CashlinkExtraData.CLAIMING,
-            });
+        const cashlinkBalance = balances.get(token) || 0;
+
+        let outcome = ClaimOutcome.CLAIMED;
+        if (!cashlinkBalance) {
+            outcome = ClaimOutcome.EMPTY;
+        } else if (cashlinkBalance <= txFee) {
+            outcome = ClaimOutcome.BELOW_FEE;
+        } else {
+            const value = cashlinkBalance - txFee;
+            try {
+                const transaction = await rpcClient.createTransaction({
+                    sender: cashlink.keyPair,
+                    recipient,
+                    value,
+                    fee: txFee,
+                    data: CashlinkExtraData.CLAIMING,
+                });
+                if (dryRun) {
+                    dryRun.transactions.set(token, transaction);
+                } else {
+                    await rpcClient.sendRawTransaction(transaction);
+                    transactions.set(token, { sender: cashlink.keyPair, transaction, state: TransactionState.PENDING });
+                }
+                unclaimed++;
+            } catch (error) {
+                outcome = await classifyClaimFailure(cashlink.address.toUserFriendlyAddress(), value + txFee,
+                    rpcClient);
+                console.error(`Failed to claim Cashlink ${token} (${outcome}):`,
+                    error instanceof Error ? error.message : error);
+            }
         }
+        outcomes.set(token, outcome);
+        if (outcome !== ClaimOutcome.CLAIMED) dryRun?.skipped.set(token, outcome);
 
+        if (dryRun) continue;
         if (processed !== cashlinks.size && processed % Math.ceil(cashlinks.size / 10) === 0) {
             console.log(`Processed ${processed} Cashlinks so far. ${unclaimed} were unclaimed and redeemed now.`);
         }
     }
 
-    console.log(`Processed ${processed} Cashlinks, of which ${unclaimed} were unclaimed and redeemed now.`);
+    if (!dryRun) {
+        console.log(`Processed ${processed} Cashlinks, of which ${unclaimed} were unclaimed and redeemed now`
+            + (txFee ? `, paying ${unclaimed * txFee / 1e5} NIM in fees.` : '.'));
+    }
+    return { transactions, outcomes };
+}
+
+/**
+ * Classifies the failures of claiming transactions which were sent, but rejected or expired while tracking them
+ * Most commonly, the holder redeemed the cashlink before the claiming transaction was included, such that its balance
+ * is checked again like for claiming transactions which fail to be sent.
+ * @param transactions - Tracked claiming transactions, after tracking them
+ * @param outcomes - Outcome per cashlink, which is updated for the failed transactions
+ * @param rpcClient - RPC client for balance queries
+ */
+export async function classifyFailedClaims(
+    transactions: TrackedTransactions,
+    outcomes: Map</* token */ string, ClaimOutcome>,
+    rpcClient: RpcClient,
+): Promise<void> {
+    for (const [token, { transaction, state }] of transactions) {
+        if (state !== TransactionState.REJECTED && state !== TransactionState.EXPIRED) continue;
+        const outcome = await classifyClaimFailure(transaction.sender.toUserFriendlyAddress(),
+            Number(transaction.value + transaction.fee), rpcClient);
+        // an expired transaction of a cashlink which still holds its balance was simply not included
+        outcomes.set(token, outcome === ClaimOutcome.NODE_ERROR && state === TransactionState.EXPIRED
+            ? ClaimOutcome.EXPIRED
+            : outcome);
+    }
+}
+
+/**
+ * Formats a report of the claim outcomes, listing the cashlinks which were not claimed for other reasons than being
+ * empty
+ * @param outcomes - Outcome per cashlink
+ * @returns Formatted report string
+ */
+export function formatClaimReport(outcomes: Map</* token */ string, ClaimOutcome>): string {
+    const tokensByOutcome = new Map(Object.values(ClaimOutcome).map((outcome) => [outcome, [] as string[]]));
+    for (const [token, outcome] of outcomes) {
+        tokensByOutcome.get(outcome)!.push(token);
+    }
+    let report = `${outcomes.size} Cashlinks: `
+        + [...tokensByOutcome].map(([outcome, tokens]) => `${tokens.length} ${outcome}`).join(', ') + '.\n';
+    for (const [outcome, tokens] of tokensByOutcome) {
+        if (!tokens.length || outcome === ClaimOutcome.CLAIMED || outcome === ClaimOutcome.EMPTY) continue;
+        report += `    ${outcome[0].toUpperCase()}${outcome.substring(1)}: ${tokens.join(', ')}\n`;
+    }
+    return report;
 }
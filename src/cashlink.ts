@@ -12,11 +12,28 @@
  * The cashlink class is the core component for cashlink generation and handling.
  */
 
-import { NumberUtils, SerialBuffer, BufferUtils, KeyPair, PrivateKey, Address } from '@nimiq/core';
+import { NumberUtils, SerialBuffer, BufferUtils, KeyPair, PrivateKey, Address, Hash } from '@nimiq/core';
 import HubApi from '@nimiq/hub-api';
+import {
+    CashlinkParseError,
+    CashlinkEncodingError,
+    CashlinkDataError,
+    CashlinkParseErrorReason,
+} from './cashlink-parse-error.ts';
 
 export const CashlinkTheme = HubApi.CashlinkTheme;
 
+/**
+ * Parse a cashlink theme from its name or number
+ * @param theme - Case-insensitive theme name as defined in HubApi, or theme number for themes not defined in HubApi yet
+ * @returns Theme number, or CashlinkTheme.UNSPECIFIED for unknown or unspecified themes
+ */
+export function parseCashlinkTheme(theme: string): number {
+    return parseInt(theme)
+        || CashlinkTheme[theme.toUpperCase() as keyof typeof CashlinkTheme]
+        || CashlinkTheme.UNSPECIFIED;
+}
+
 /**
  * Extra data fields for cashlink transactions
  */
@@ -25,6 +42,11 @@ export const CashlinkExtraData = {
     CLAIMING: new Uint8Array([0, 139, 136, 141, 138]), // 'LINK'.split('').map((c) => c.charCodeAt(0) + 63)
 } as const;
 
+/**
+ * Result of parsing a cashlink without throwing
+ */
+export type CashlinkParseResult = { cashlink: Cashlink, error: null } | { cashlink: null, error: CashlinkParseError };
+
 /**
  * Core cashlink class for creating and managing Nimiq cashlinks
  * Handles the creation, modification, and serialization of cashlinks
@@ -38,24 +60,90 @@ export class Cashlink {
     private _messageBytes: Uint8Array = new Uint8Array();
     private _theme: number = CashlinkTheme.UNSPECIFIED;
 
+    /**
+     * Deterministically derive the key pair of a cashlink from its token and the secret salt
+     * @param token - Base64url encoded cashlink token
+     * @param secretSalt - Secret salt the cashlink was created with
+     * @returns KeyPair of the cashlink
+     */
+    static deriveKeyPair(token: string, secretSalt: Uint8Array): KeyPair {
+        const tokenBytes = BufferUtils.fromBase64Url(token);
+        const saltedTokenBytes = new SerialBuffer(tokenBytes.length + secretSalt.length);
+        saltedTokenBytes.write(tokenBytes);
+        saltedTokenBytes.write(secretSalt);
+        const privateKeyBytes = Hash.computeBlake2b(saltedTokenBytes);
+        const privateKey = PrivateKey.deserialize(privateKeyBytes);
+        return KeyPair.derive(privateKey);
+    }
+
     /**
      * Parse a cashlink from its string representation
      * @param str - Cashlink URL string to parse
      * @returns New Cashlink instance
+     * @throws CashlinkEncodingError or CashlinkDataError if the cashlink is malformed
      */
     static parse(str: string): Cashlink {
-        const [baseUrl, rawHash] = str.split('#');
+        const hashIndex = str.indexOf('#');
+        if (hashIndex === -1) {
+            throw new CashlinkEncodingError(CashlinkParseErrorReason.MISSING_SEPARATOR, str.length,
+                'Cashlink is missing the # separating base url and cashlink data');
+        }
+        const baseUrl = str.substring(0, hashIndex);
+        const rawHash = str.substring(hashIndex + 1);
+        // padding is only allowed at the end, and can be encoded as = or .
+        const invalidCharacterIndex = rawHash.search(/[^A-Za-z0-9_~=.-]|[=.](?![=.]*$)/);
+        if (invalidCharacterIndex !== -1) {
+            throw new CashlinkEncodingError(CashlinkParseErrorReason.INVALID_BASE64,
+                hashIndex + 1 + invalidCharacterIndex,
+                `Cashlink data contains invalid base64 character "${rawHash[invalidCharacterIndex]}"`);
+        }
         const hash = rawHash.replace(/~/g, '')
-            .replace(/=*$/, (match) => new Array(match.length).fill('.').join(''));
+            .replace(/[=.]*$/, (match) => new Array(match.length).fill('.').join(''));
+        if (hash.length % 4 === 1 || /\.{3,}$/.test(hash)) {
+            throw new CashlinkEncodingError(CashlinkParseErrorReason.INVALID_BASE64, str.length,
+                'Cashlink data has an invalid base64 length');
+        }
         const buf = BufferUtils.fromBase64Url(hash);
 
+        if (buf.byteLength < PrivateKey.SIZE) {
+            throw new CashlinkDataError(CashlinkParseErrorReason.TRUNCATED_KEY, buf.byteLength,
+                'Cashlink private key is truncated');
+        }
         const privateKeyBytes = buf.read(PrivateKey.SIZE);
-        const privateKey = PrivateKey.deserialize(privateKeyBytes);
-        const keyPair = KeyPair.derive(privateKey);
-        const value = buf.readUint64();
+        let keyPair: KeyPair;
+        try {
+            keyPair = KeyPair.derive(PrivateKey.deserialize(privateKeyBytes));
+        } catch (e) {
+            throw new CashlinkDataError(CashlinkParseErrorReason.INVALID_KEY, 0, 'Cashlink private key is invalid');
+        }
+
+        const valueOffset = buf.readPos;
+        if (buf.byteLength - buf.readPos < 8) {
+            throw new CashlinkDataError(CashlinkParseErrorReason.TRUNCATED_VALUE, buf.byteLength,
+                'Cashlink value is truncated');
+        }
+        let value: number;
+        try {
+            value = buf.readUint64();
+        } catch (e) {
+            // values exceeding the safe integer range are rejected by readUint64 already
+            throw new CashlinkDataError(CashlinkParseErrorReason.INVALID_VALUE, valueOffset,
+                'Cashlink value exceeds the maximum amount of luna');
+        }
+        if (value <= 0 || !Number.isSafeInteger(value)) {
+            throw new CashlinkDataError(CashlinkParseErrorReason.INVALID_VALUE, valueOffset,
+                `Cashlink value ${value} is not a positive amount of luna`);
+        }
+
         let message = '';
         if (buf.readPos !== buf.byteLength) {
+            const messageLengthOffset = buf.readPos;
             const messageLength = buf.readUint8();
+            if (buf.byteLength - buf.readPos < messageLength) {
+                throw new CashlinkDataError(CashlinkParseErrorReason.MESSAGE_OVERFLOW, messageLengthOffset,
+                    `Cashlink message length ${messageLength} exceeds the remaining `
+                    + `${buf.byteLength - buf.readPos} bytes of cashlink data`);
+            }
             const messageBytes = buf.read(messageLength);
             message = Cashlink._textDecoder.decode(messageBytes);
         }
@@ -63,10 +151,28 @@ export class Cashlink {
         if (buf.readPos < buf.byteLength) {
             theme = buf.readUint8();
         }
+        if (buf.readPos !== buf.byteLength) {
+            throw new CashlinkDataError(CashlinkParseErrorReason.TRAILING_BYTES, buf.readPos,
+                `Cashlink data has ${buf.byteLength - buf.readPos} unexpected trailing bytes`);
+        }
 
         return new Cashlink(baseUrl, keyPair, value, message, theme);
     }
 
+    /**
+     * Parse a cashlink from its string representation without throwing
+     * @param str - Cashlink URL string to parse
+     * @returns Parsed Cashlink, or the error describing why the cashlink is malformed
+     */
+    static tryParse(str: string): CashlinkParseResult {
+        try {
+            return { cashlink: Cashlink.parse(str), error: null };
+        } catch (e) {
+            if (!(e instanceof CashlinkParseError)) throw e;
+            return { cashlink: null, error: e };
+        }
+    }
+
     /**
      * Create a new cashlink instance
      * @param baseUrl - Base URL for cashlink
@@ -89,6 +195,18 @@ export class Cashlink {
         this.theme = theme;
     }
 
+    /** Get/Set the base URL, e.g. for moving cashlinks to a different Hub */
+    get baseUrl(): string {
+        return this._baseUrl;
+    }
+
+    set baseUrl(baseUrl: string) {
+        if (!URL.canParse(baseUrl)) {
+            throw new Error(`Invalid base url ${baseUrl}`);
+        }
+        this._baseUrl = baseUrl;
+    }
+
     /** Get the value in luna */
     get value(): number {
         return this._value;
@@ -107,6 +225,11 @@ export class Cashlink {
         this._messageBytes = messageBytes;
     }
 
+    /** Get the size of the UTF-8 encoded message in bytes */
+    get messageSize(): number {
+        return this._messageBytes.byteLength;
+    }
+
     /** Get/Set the theme */
     get theme(): number {
         return this._theme;
@@ -129,19 +252,22 @@ export class Cashlink {
         return this._keyPair;
     }
 
+    /** Get the size of the serialized cashlink data in bytes */
+    get serializedSize(): number {
+        return /*key*/ this._keyPair.privateKey.serializedSize +
+            /*value*/ 8 +
+            /*message length*/ (this._messageBytes.byteLength || this._theme ? 1 : 0) +
+            /*message*/ this._messageBytes.byteLength +
+            /*theme*/ (this._theme ? 1 : 0);
+    }
+
     /**
      * Render the cashlink as a URL string
      * Handles serialization and URL-safe encoding
      * @returns Complete cashlink URL
      */
     render(): string {
-        const buf = new SerialBuffer(
-            /*key*/ this._keyPair.privateKey.serializedSize +
-            /*value*/ 8 +
-            /*message length*/ (this._messageBytes.byteLength || this._theme ? 1 : 0) +
-            /*message*/ this._messageBytes.byteLength +
-            /*theme*/ (this._theme ? 1 : 0),
-        );
+        const buf = new SerialBuffer(this.serializedSize);
 
         buf.write(this._keyPair.privateKey.serialize());
         buf.writeUint64(this._value);
@@ -0,0 +1,121 @@
+/**
+ * Nimiq Cashlink Claim Filter
+ * Selects the cashlinks to reclaim, for reclaiming only part of a campaign.
+ *
+ * Features:
+ * - Token allowlist, e.g. of the cashlinks handed out at a specific event
+ * - Minimum age since funding, determined from the timestamps of the funding transactions
+ * - Value range, e.g. for reclaiming only a specific tier
+ * - Message match
+ * - Preview of the balances which will be swept
+ *
+ * Cashlinks which do not match the filter are left untouched, such that they can still be claimed by their holders.
+ */
+
+import { type Transaction as RpcTransaction } from '@blouflash/nimiq-rpc';
+import { type Cashlink } from './cashlink.ts';
+import { type RpcClient } from './rpc-client.ts';
+
+const DAY = 24 * 60 * 60 * 1000; // in ms
+const PREVIEW_LIST_LIMIT = 20; // cashlinks listed individually in the preview
+
+/**
+ * Criteria a cashlink has to match all of to be claimed. Criteria which are null are not applied.
+ */
+export interface ClaimFilter {
+    tokens: Set<string> | null; // allowlist of cashlink tokens
+    minAge: number | null; // minimum time since funding in days
+    minValue: number | null; // in luna, inclusive
+    maxValue: number | null; // in luna, inclusive
+    message: string | null; // case-insensitive substring of the cashlink message
+}
+
+/**
+ * Checks whether a claim filter applies any criteria
+ * @param filter - Claim filter to check
+ * @returns Boolean indicating if any criteria are applied
+ */
+export function isClaimFilterActive(filter: ClaimFilter): boolean {
+    return Object.values(filter).some((criterion) => criterion !== null);
+}
+
+/**
+ * Determines when a cashlink was funded
+ * @param cashlink - Cashlink to check
+ * @param transactions - Transactions of the cashlink address
+ * @returns Timestamp in ms of the first funding transaction included in a block, or null if the cashlink was not funded
+ */
+function getFundingTimestamp(cashlink: Cashlink, transactions: RpcTransaction[]): number | null {
+    const cashlinkUserFriendlyAddress = cashlink.address.toUserFriendlyAddress();
+    const timestamps = transactions
+        .filter(({ to: recipient, timestamp }) => recipient === cashlinkUserFriendlyAddress && !!timestamp)
+        .map(({ timestamp }) => Number(timestamp)); // block timestamps are in ms
+    return timestamps.length ? Math.min(...timestamps) : null;
+}
+
+/**
+ * Selects the cashlinks matching a claim filter
+ * The age is only checked for cashlinks matching all other criteria, as it requires querying the blockchain. The
+ * transactions of these cashlinks are queried with the bounded parallelism and retries of the balance scan.
+ * @param cashlinks - Map of cashlinks to filter
+ * @param filter - Criteria the cashlinks have to match
+ * @param rpcClient - RPC client for blockchain queries
+ * @returns Matching cashlinks, in their original order
+ */
+export async function filterCashlinks(
+    cashlinks: Map<string, Cashlink>,
+    filter: ClaimFilter,
+    rpcClient: RpcClient,
+): Promise<Map<string, Cashlink>> {
+    const { tokens, minAge, minValue, maxValue, message } = filter;
+    const matchingCashlinks = new Map<string, Cashlink>();
+    for (const [token, cashlink] of cashlinks) {
+        if (tokens && !tokens.has(token)) continue;
+        if (minValue !== null && cashlink.value < minValue) continue;
+        if (maxValue !== null && cashlink.value > maxValue) continue;
+        if (message !== null && !cashlink.message.toLowerCase().includes(message.toLowerCase())) continue;
+        matchingCashlinks.set(token, cashlink);
+    }
+    if (minAge === null) return matchingCashlinks;
+
+    const fundedBefore = Date.now() - minAge * DAY;
+    const transactions = await rpcClient.getTransactionsByAddresses([...matchingCashlinks.values()]
+        .map((cashlink) => cashlink.address.toUserFriendlyAddress()));
+    return new Map([...matchingCashlinks].filter(([, cashlink]) => {
+        const fundingTimestamp = getFundingTimestamp(cashlink,
+            transactions.get(cashlink.address.toUserFriendlyAddress())!);
+        return fundingTimestamp !== null && fundingTimestamp <= fundedBefore;
+    }));
+}
+
+/**
+ * Formats the preview of a claim, listing the cashlinks which will be swept
+ * @param cashlinks - Map of the cashlinks matching the claim filter
+ * @param balances - Snapshot of the balances of the matching cashlinks
+ * @param total - Number of cashlinks before filtering
+ * @param txFee - Fee per claiming transaction in luna, which is deducted from the balance of each cashlink
+ * @returns Formatted preview string
+ */
+export function formatClaimPreview(
+    cashlinks: Map<string, Cashlink>,
+    balances: Map</* token */ string, number>,
+    total: number,
+    txFee: number,
+): string {
+    const unclaimed = [...balances].filter(([, balance]) => balance > 0);
+    const claimable = unclaimed.filter(([, balance]) => balance > txFee);
+    const totalBalance = claimable.reduce((sum, [, balance]) => sum + balance, 0);
+    let preview = `${cashlinks.size} of ${total} Cashlinks match, ${unclaimed.length} of them are unclaimed`
+        + (claimable.length < unclaimed.length
+            ? `, ${unclaimed.length - claimable.length} of which are skipped as their balance does not exceed the fee`
+            : '')
+        + `. ${(totalBalance - claimable.length * txFee) / 1e5} NIM will be swept`
+        + (txFee ? `, paying ${claimable.length * txFee / 1e5} NIM in fees.\n` : '.\n');
+    for (const [token, balance] of claimable.slice(0, PREVIEW_LIST_LIMIT)) {
+        const cashlink = cashlinks.get(token)!;
+        preview += `    ${token}: ${balance / 1e5} NIM (value ${cashlink.value / 1e5} NIM`
+            + (cashlink.message ? `, message "${cashlink.message}")\n` : ')\n');
+    }
+    if (claimable.length > PREVIEW_LIST_LIMIT) preview += `    and ${claimable.length - PREVIEW_LIST_LIMIT} more\n`;
+    return preview;
+}
@@ -0,0 +1,299 @@
+/**
+ * Nimiq Cashlink Command Line Interface
+ * Parses command line arguments for non-interactive usage of the cashlink generator.
+ *
+ * Features:
+ * - One subcommand per supported operation
+ * - Flags for the values otherwise requested by the interactive wizards
+ * - Usage help
+ *
+ * Values which are not specified via flags are requested interactively by the wizards as before.
+ */
+
+import { parseArgs } from 'util';
+
+/**
+ * Operations supported by the cashlink generator
+ */
+export enum Operation {
+    CREATE = 'create',
+    CHANGE_MESSAGE = 'change-message',
+    CHANGE_THEME = 'change-theme',
+    REBASE = 'rebase',
+    CREATE_IMAGES = 'create-images',
+    FUND = 'fund',
+    CLAIM = 'claim',
+    STATISTICS = 'statistics',
+    RECOVER = 'recover',
+    INSPECT = 'inspect',
+    SIGN = 'sign',
+    BROADCAST = 'broadcast',
+    MULTISIG_PREPARE = 'multisig-prepare',
+    MULTISIG_COMMIT = 'multisig-commit',
+    MULTISIG_SIGN = 'multisig-sign',
+    MULTISIG_COMBINE = 'multisig-combine',
+    STATUS = 'status',
+}
+
+/**
+ * Options specified via command line flags. All values are kept as strings, exactly like the answers given to the
+ * interactive prompts they replace, such that they are validated by the wizards in the same way.
+ */
+export interface CliOptions {
+    file?: string;
+    urls?: string[];
+    tokens?: string;
+    tiers?: string;
+    saltId?: string;
+    count?: string;
+    value?: string;
+    message?: string;
+    theme?: string;
+    baseUrl?: string;
+    shortLinkBaseUrl?: string;
+    format?: string;
+    fundingMode?: string;
+    fee?: string;
+    wallets?: string;
+    fundingAccount?: string;
+    backupWordsFile?: string;
+    campaign?: string;
+    validityStartHeight?: string;
+    networkId?: string;
+    signedFile?: string;
+    multisigAddress?: string;
+    unsignedFile?: string;
+    commitmentsFile?: string;
+    noncesFile?: string;
+    signaturesFile?: string;
+    publicKeys?: string;
+    recipient?: string;
+    claimingMode?: string;
+    minAge?: string;
+    minValue?: string;
+    maxValue?: string;
+    messageFilter?: string;
+    reclaimAddress?: string;
+    timeZone?: string;
+    statusFile?: string;
+    skipFunding?: boolean;
+    dryRun?: boolean;
+    dryRunFile?: string;
+    yes?: boolean;
+}
+
+/**
+ * Parsed command line arguments
+ */
+export interface CliArguments {
+    operation: Operation | null; // null if no subcommand was specified and the interactive mode should be used
+    options: CliOptions;
+}
+
+export const USAGE = 'Usage: yarn main [<operation>] [options]\n'
+    + `       yarn main ${Operation.INSPECT} [<cashlink url>...]\n`
+    + '\n'
+    + 'Operations:\n'
+    + `    ${Operation.CREATE}            Create new Cashlinks, render their images, export and fund them\n`
+    + `    ${Operation.CHANGE_MESSAGE}    Change the message of previously created Cashlinks\n`
+    + `    ${Operation.CHANGE_THEME}      Change the theme of previously created Cashlinks\n`
+    + `    ${Operation.REBASE}            Change the base url of previously created Cashlinks, e.g. for a custom Hub\n`
+    + `    ${Operation.CREATE_IMAGES}     (Re)create images for previously created Cashlinks\n`
+    + `    ${Operation.FUND}              Fund previously created Cashlinks\n`
+    + `    ${Operation.CLAIM}             Claim unclaimed Cashlinks\n`
+    + `    ${Operation.STATISTICS}        Create statistics on previously created Cashlinks\n`
+    + `    ${Operation.RECOVER}           Recover lost Cashlinks from their tokens or short links and the secret salt\n`
+    + `    ${Operation.INSPECT}           Validate Cashlink urls and print their content\n`
+    + `    ${Operation.SIGN}              Sign funding transactions offline, for broadcasting them later\n`
+    + `    ${Operation.BROADCAST}         Send funding transactions signed offline\n`
+    + `    ${Operation.MULTISIG_PREPARE}  Export unsigned funding transactions of a multisig account for signing\n`
+    + `    ${Operation.MULTISIG_COMMIT}   Create a co-signer's nonce commitments for prepared multisig transactions\n`
+    + `    ${Operation.MULTISIG_SIGN}     Create a co-signer's partial signatures for prepared multisig transactions\n`
+    + `    ${Operation.MULTISIG_COMBINE}  Combine the co-signers' partial signatures to signed multisig transactions\n`
+    + `    ${Operation.STATUS}            Report which Cashlinks are unfunded, unclaimed or emptied, without claiming\n`
+    + 'If no operation is specified, the interactive mode is started.\n'
+    + '\n'
+    + 'Options:\n'
+    + '    -f, --file <path>                Cashlink csv file to load, for all operations except create, recover,\n'
+    + '                                     inspect, multisig-commit and multisig-sign\n'
+    + '    --tokens <path>                  File with one token or short link per line, for recover, or to only claim\n'
+    + '                                     the listed Cashlinks\n'
+    + '    --count <number>                 Number of Cashlinks to create\n'
+    + '    --tiers <path>                   Json or csv file with tiers of Cashlinks to create, instead of --count\n'
+    + '                                     and --value. --message and --theme apply to tiers without their own\n'
+    + '                                     message or theme\n'
+    + '    --salt-id <id>                   Id of the secret salt to create Cashlinks with, or to recover Cashlinks\n'
+    + '                                     with for which the token file specifies no salt id\n'
+    + '    --value <NIM>                    Value per Cashlink in NIM\n'
+    + '    --message <message|"none">       Cashlink message\n'
+    + '    --theme <name|number>            Cashlink theme\n'
+    + '    --base-url <url>                 New Cashlink base url, for rebase\n'
+    + '    --short-link-base-url <url|"none">\n'
+    + '                                     Base url for short links\n'
+    + '    --format <qr|coin>               Image output format\n'
+    + '    --funding-mode <free|paid>       Send funding transactions for free or with a fee\n'
+    + '    --fee <NIM>                      Fee per transaction in NIM, only for paid funding or claiming. Defaults\n'
+    + '                                     to 1 luna per byte of a transaction\n'
+    + '    --wallets <number>               Number of wallets to fund Cashlinks from in parallel\n'
+    + '    --funding-account <import|campaign>\n'
+    + '                                     Fund from imported wallets or from accounts derived from the salt\n'
+    + '    --backup-words-file <path>       File with the backup words of the imported accounts to fund from, one\n'
+    + '                                     account per line, for fund and sign, or of the co-signer, for\n'
+    + '                                     multisig-commit and multisig-sign. Otherwise, they are requested\n'
+    + '                                     interactively, also with --yes\n'
+    + '    --campaign <id>                  Campaign id to derive the funding accounts from\n'
+    + '    --validity-start-height <height> Block height from which on offline signed transactions are valid\n'
+    + '    --network-id <id>                Network id for offline signing, by default the configured network\n'
+    + '    --signed-file <path>             File of offline signed transactions, for sign, broadcast and\n'
+    + '                                     multisig-combine\n'
+    + '    --multisig-address <address>     Multisig account to fund Cashlinks from, for multisig-prepare\n'
+    + '    --unsigned-file <path>           File of unsigned multisig transactions, for all multisig operations\n'
+    + '    --commitments-file <path,...>    File of the co-signer\'s nonce commitments to write, for multisig-commit,\n'
+    + '                                     or comma separated files of all signing co-signers, for multisig-sign\n'
+    + '                                     and multisig-combine\n'
+    + '    --nonces-file <path>             File of the co-signer\'s secret nonces, written by multisig-commit and\n'
+    + '                                     deleted by multisig-sign\n'
+    + '    --signatures-file <path,...>     File of the co-signer\'s partial signatures to write, for multisig-sign,\n'
+    + '                                     or comma separated files of all signing co-signers, for multisig-combine\n'
+    + '    --public-keys <hex,...>          Public keys of all co-signers of the multisig account, for\n'
+    + '                                     multisig-combine\n'
+    + '    --recipient <address>            Address to redeem unclaimed Cashlinks to, by default the campaign account\n'
+    + '    --claiming-mode <free|paid>      Send claiming transactions for free or with a fee deducted from each\n'
+    + '                                     Cashlink\n'
+    + '    --min-age <days>                 Only claim Cashlinks funded at least the given number of days ago\n'
+    + '    --min-value <NIM>                Only claim Cashlinks with at least the given value\n'
+    + '    --max-value <NIM>                Only claim Cashlinks with at most the given value\n'
+    + '    --message-filter <text>          Only claim Cashlinks with a message containing the text\n'
+    + '    --reclaim-address <address|"">   Address Cashlinks have been reclaimed to, for statistics\n'
+    + '    --timezone <timezone>            Timezone for the claims-per-day statistic\n'
+    + '    --status-file <path|"">          File to write the status of each Cashlink to, for status\n'
+    + '    --skip-funding                   Do not fund newly created Cashlinks\n'
+    + '    --dry-run                        Build and sign funding or claiming transactions without sending them\n'
+    + '    --dry-run-file <path|"">         File to write the signed transactions of a dry run to\n'
+    + '    -y, --yes                        Answer confirmation prompts with yes, and use the default funding or\n'
+    + '                                     claiming mode and fee where not specified\n'
+    + '    -h, --help                       Print this help\n'
+    + '\n'
+    + 'Values which are not specified via options are requested interactively.';
+
+/**
+ * Parses the command line arguments
+ * @param args - Command line arguments, without the node executable and script path
+ * @returns Parsed operation and options
+ * @throws If an unknown operation or option is specified
+ */
+export function parseCliArguments(args: string[]): CliArguments {
+    const { values, positionals } = parseArgs({
+        args,
+        allowPositionals: true,
+        options: {
+            'file': { type: 'string', short: 'f' },
+            'tokens': { type: 'string' },
+            'tiers': { type: 'string' },
+            'salt-id': { type: 'string' },
+            'count': { type: 'string' },
+            'value': { type: 'string' },
+            'message': { type: 'string' },
+            'theme': { type: 'string' },
+            'base-url': { type: 'string' },
+            'short-link-base-url': { type: 'string' },
+            'format': { type: 'string' },
+            'funding-mode': { type: 'string' },
+            'fee': { type: 'string' },
+            'wallets': { type: 'string' },
+            'funding-account': { type: 'string' },
+            'backup-words-file': { type: 'string' },
+            'campaign': { type: 'string' },
+            'validity-start-height': { type: 'string' },
+            'network-id': { type: 'string' },
+            'signed-file': { type: 'string' },
+            'multisig-address': { type: 'string' },
+            'unsigned-file': { type: 'string' },
+            'commitments-file': { type: 'string' },
+            'nonces-file': { type: 'string' },
+            'signatures-file': { type: 'string' },
+            'public-keys': { type: 'string' },
+            'recipient': { type: 'string' },
+            'claiming-mode': { type: 'string' },
+            'min-age': { type: 'string' },
+            'min-value': { type: 'string' },
+            'max-value': { type: 'string' },
+            'message-filter': { type: 'string' },
+            'reclaim-address': { type: 'string' },
+            'timezone': { type: 'string' },
+            'status-file': { type: 'string' },
+            'skip-funding': { type: 'boolean' },
+            'dry-run': { type: 'boolean' },
+            'dry-run-file': { type: 'string' },
+            'yes': { type: 'boolean', short: 'y' },
+            'help': { type: 'boolean', short: 'h' },
+        },
+    });
+
+    if (values.help) {
+        console.log(USAGE);
+        process.exit(0);
+    }
+
+    const [operation = null, ...urls] = positionals;
+    if (operation !== null && !Object.values(Operation).some((o) => o === operation)) {
+        throw new Error(`Unsupported operation ${operation}\n\n${USAGE}`);
+    }
+    if (operation !== Operation.INSPECT && urls.length) {
+        throw new Error(`Unexpected arguments ${urls.join(' ')}\n\n${USAGE}`);
+    }
+    if ((operation === Operation.CREATE || operation === Operation.RECOVER || operation === Operation.INSPECT
+        || operation === Operation.MULTISIG_COMMIT || operation === Operation.MULTISIG_SIGN)
+        && values.file !== undefined) {
+        throw new Error(`Option --file is not supported for operation ${operation}`);
+    }
+    if (values.tiers !== undefined && values.count !== undefined) {
+        throw new Error('Options --tiers and --count can not be combined');
+    }
+
+    return {
+        operation: operation as Operation | null,
+        options: {
+            file: values['file'],
+            urls,
+            tokens: values['tokens'],
+            tiers: values['tiers'],
+            saltId: values['salt-id'],
+            count: values['count'],
+            value: values['value'],
+            message: values['message'],
+            theme: values['theme'],
+            baseUrl: values['base-url'],
+            shortLinkBaseUrl: values['short-link-base-url'],
+            format: values['format'],
+            fundingMode: values['funding-mode'],
+            fee: values['fee'],
+            wallets: values['wallets'],
+            fundingAccount: values['funding-account'],
+            backupWordsFile: values['backup-words-file'],
+            campaign: values['campaign'],
+            validityStartHeight: values['validity-start-height'],
+            networkId: values['network-id'],
+            signedFile: values['signed-file'],
+            multisigAddress: values['multisig-address'],
+            unsignedFile: values['unsigned-file'],
+            commitmentsFile: values['commitments-file'],
+            noncesFile: values['nonces-file'],
+            signaturesFile: values['signatures-file'],
+            publicKeys: values['public-keys'],
+            recipient: values['recipient'],
+            claimingMode: values['claiming-mode'],
+            minAge: values['min-age'],
+            minValue: values['min-value'],
+            maxValue: values['max-value'],
+            messageFilter: values['message-filter'],
+            reclaimAddress: values['reclaim-address'],
+            timeZone: values['timezone'],
+            statusFile: values['status-file'],
+            skipFunding: values['skip-funding'],
+            dryRun: values['dry-run'],
+            dryRunFile: values['dry-run-file'],
+            yes: values['yes'],
+        },
+    };
+}
@@ -5,13 +5,18 @@
  * Features:
  * - Load environment variables
  * - Validate configuration values
- * - Generate cashlink base URLs
+ * - Generate cashlink base URLs, optionally for a custom Hub
+ * - Keyring of named secret salts
+ * - Decrypt salts stored encrypted under a passphrase
+ * - Optional tuning of the load put on the node
  * - Type-safe configuration access
  *
  * The configuration handler ensures proper setup of the cashlink generator.
  */
 
 import { config } from 'dotenv';
+import { promptSecret } from './utils.ts';
+import { decryptSalt, isEncryptedSalt } from './salt-encryption.ts';
 
 // Load environment variables
 config();
@@ -30,6 +35,25 @@ function getEnvVar(name: string): string {
     return value;
 }
 
+/**
+ * Retrieves an optional environment variable
+ * @param name - Environment variable name
+ * @returns String value, or undefined if the variable is not set or empty
+ */
+function getOptionalEnvVar(name: string): string | undefined {
+    return process.env[name] || undefined;
+}
+
+/**
+ * Id of the salt configured via the legacy SALT environment variable
+ */
+export const DEFAULT_SALT_ID = 'default';
+
+/**
+ * Environment variable holding the passphrase of encrypted salts, which is not a salt itself
+ */
+const SALT_PASSPHRASE_ENV_VAR = 'SALT_PASSPHRASE';
+
 /**
  * Configuration interface for node settings
  */
@@ -38,16 +62,56 @@ export interface NodeConfig {
     nodePort: string;
     network: 'main' | 'test';
     tokenLength: number;
-    salt: string;
+    salts: Map</* salt id */ string, /* base64 salt, or encrypted salt */ string>;
     cashlinkBaseUrl: string;
+    rpcConcurrency?: number; // maximum number of parallel requests when scanning many addresses, if configured
+}
+
+/**
+ * Gets the name of the environment variable holding a salt
+ * @param saltId - Salt id
+ * @returns SALT for the default salt, SALT_<ID> for all other salts
+ * @throws If the salt id is invalid
+ */
+export function getSaltEnvVarName(saltId: string): string {
+    if (!/^[a-z0-9_]+$/.test(saltId)) {
+        throw new Error(`Invalid salt id ${saltId}, only lowercase letters, digits and _ are allowed`);
+    }
+    const envVarName = saltId === DEFAULT_SALT_ID ? 'SALT' : `SALT_${saltId.toUpperCase()}`;
+    if (envVarName === SALT_PASSPHRASE_ENV_VAR) throw new Error(`Salt id ${saltId} is reserved`);
+    return envVarName;
+}
+
+/**
+ * Collects all salts from the SALT and SALT_<ID> environment variables
+ * @returns Map of salt id to base64 encoded salt, or encrypted salt
+ * @throws If no salt is configured or a salt id is configured twice
+ */
+function getSalts(): Map<string, string> {
+    const salts = new Map<string, string>();
+    for (const [name, value] of Object.entries(process.env)) {
+        if (name === SALT_PASSPHRASE_ENV_VAR) continue;
+        const saltId = name === 'SALT' ? DEFAULT_SALT_ID : name.match(/^SALT_([A-Z0-9_]+)$/)?.[1].toLowerCase();
+        if (!saltId || !value) continue;
+        if (salts.has(saltId)) throw new Error(`Salt ${saltId} is configured twice`);
+        salts.set(saltId, value);
+    }
+    if (!salts.size) throw new Error('Environment variable SALT or SALT_<ID> is not set');
+    return salts;
 }
 
 /**
- * Generates the base URL for cashlinks based on network
+ * Generates the base URL for cashlinks based on network, or returns the configured custom base URL
  * @param network - Network identifier ('main' or 'test')
+ * @param customBaseUrl - Optional base URL of a custom Hub, overriding the public Hub
  * @returns Complete base URL for cashlinks
+ * @throws If the custom base URL is not a valid URL
  */
-export function getCashlinkBaseUrl(network: 'main' | 'test'): string {
+export function getCashlinkBaseUrl(network: 'main' | 'test', customBaseUrl?: string): string {
+    if (customBaseUrl) {
+        if (!URL.canParse(customBaseUrl)) throw new Error(`Invalid cashlink base url ${customBaseUrl}`);
+        return customBaseUrl;
+    }
     return `https://hub.nimiq${network === 'main' ? '' : '-testnet'}.com/cashlink/`;
 }
 
@@ -62,12 +126,51 @@ export function getConfig(): NodeConfig {
     if (network !== 'main' && network !== 'test') throw new Error(`Invalid network ${network}`);
     const tokenLength = Number.parseFloat(getEnvVar('TOKEN_LENGTH'));
     if (!Number.isInteger(tokenLength)) throw new Error(`Invalid token length ${tokenLength}`);
+    const rpcConcurrencyVar = getOptionalEnvVar('RPC_CONCURRENCY');
+    const rpcConcurrency = rpcConcurrencyVar !== undefined ? Number.parseFloat(rpcConcurrencyVar) : undefined;
+    if (rpcConcurrency !== undefined && (!Number.isInteger(rpcConcurrency) || rpcConcurrency < 1)) {
+        throw new Error(`Invalid RPC concurrency ${rpcConcurrencyVar}`);
+    }
     return {
         nodeIp: getEnvVar('NODE_IP'),
         nodePort: getEnvVar('NODE_PORT'),
         network,
         tokenLength,
-        salt: getEnvVar('SALT'),
-        cashlinkBaseUrl: getCashlinkBaseUrl(network),
+        salts: getSalts(),
+        cashlinkBaseUrl: getCashlinkBaseUrl(network, getOptionalEnvVar('CASHLINK_BASE_URL')),
+        rpcConcurrency,
     };
 }
+
+const decryptedSalts = new Map</* salt id */ string, /* base64 salt */ string>();
+let lastPassphrase = getOptionalEnvVar(SALT_PASSPHRASE_ENV_VAR);
+
+/**
+ * Gets a salt, decrypting it if it is stored encrypted
+ * The passphrase is read from the SALT_PASSPHRASE environment variable, or requested when the salt is first needed.
+ * Decrypted salts and the last entered passphrase are kept in memory, such that the passphrase is requested only once,
+ * even if multiple salts share the same passphrase.
+ * @param saltId - Id of the salt
+ * @returns Base64 encoded salt
+ * @throws If the salt is not configured or can not be decrypted
+ */
+export async function getSalt(saltId: string): Promise<string> {
+    const salt = getConfig().salts.get(saltId);
+    if (!salt) throw new Error(`Salt ${saltId} is not configured`);
+    if (!isEncryptedSalt(salt)) return salt;
+
+    if (!decryptedSalts.has(saltId)) {
+        if (lastPassphrase !== undefined) {
+            try {
+                decryptedSalts.set(saltId, await decryptSalt(salt, lastPassphrase));
+                return decryptedSalts.get(saltId)!;
+            } catch (error) {
+                // fall through to prompt for the passphrase of this salt, unless it was explicitly configured
+                if (process.env[SALT_PASSPHRASE_ENV_VAR]) throw error;
+            }
+        }
+        lastPassphrase = await promptSecret(`Passphrase of salt ${saltId}: `);
+        decryptedSalts.set(saltId, await decryptSalt(salt, lastPassphrase));
+    }
+    return decryptedSalts.get(saltId)!;
+}
@@ -8,13 +8,18 @@
  * - Handle private key serialization
  * - Manage image file references
  * - Support short links
+ * - Import token lists for cashlink recovery
+ * - Import tier specifications for cashlink creation
+ * - Record the id of the secret salt each cashlink was created with
+ * - Import the backup words of funding accounts for unattended funding
  *
  * The file handler ensures proper persistence and loading of cashlink data.
  */
 
 import fs from 'fs';
 import { BufferUtils } from '@nimiq/core';
-import { Cashlink } from './cashlink.ts';
+import { Cashlink, parseCashlinkTheme } from './cashlink.ts';
+import { DEFAULT_SALT_ID } from './config.ts';
 
 /**
  * Data structure for imported cashlink information
@@ -23,10 +28,13 @@ interface ImportedData {
     cashlinks: Map</* token id */ string, Cashlink>;
     shortLinks: Map</* token id */ string, /* link */ string>;
     imageFiles: Map</* token id */ string, /* filename */ string>;
+    saltIds: Map</* token id */ string, /* salt id */ string>;
 }
 
 /**
  * Imports cashlinks from a CSV file
+ * All malformed lines are reported before failing, instead of only the first one.
+ * Cashlinks of CSV files without salt id column, which predate multiple salts, are assigned the default salt id.
  * @param file - Path to CSV file
  * @returns Imported cashlink data including short links and image files
  * @throws If CSV file is malformed or contains invalid data
@@ -38,25 +46,158 @@ export function importCashlinks(file: string): ImportedData {
     const cashlinks = new Map<string, Cashlink>();
     const shortLinks = new Map<string, string>();
     const imageFiles = new Map<string, string>();
+    const saltIds = new Map<string, string>();
+    let malformedLines = 0;
 
-    for (const line of lines) {
-        const [token, shortLink, imageFile, cashlinkUrl] = line.split(',');
-
-        try {
-            const cashlink = Cashlink.parse(cashlinkUrl);
+    for (const [index, line] of lines.entries()) {
+        const [token, shortLink, imageFile, cashlinkUrl, /* private key */, saltId] = line.split(',');
+        if (cashlinkUrl === undefined) {
+            malformedLines++;
+            console.error(`Line ${index + 1}: missing columns`);
+            continue;
+        }
 
-            cashlinks.set(token, cashlink);
-            if (shortLink !== '') shortLinks.set(token, shortLink);
-            if (imageFile !== '') imageFiles.set(token, imageFile);
-        } catch (e) {
-            console.error(`Failed to parse line: ${line}`);
-            console.error('Error:', e);
-            throw new Error('Malformed value in CSV file');
+        const { cashlink, error } = Cashlink.tryParse(cashlinkUrl);
+        if (!cashlink) {
+            malformedLines++;
+            console.error(`Line ${index + 1} (token ${token}): ${error.message} `
+                + `(${error.reason} at ${error.location})`);
+            continue;
         }
+
+        cashlinks.set(token, cashlink);
+        if (shortLink !== '') shortLinks.set(token, shortLink);
+        if (imageFile !== '') imageFiles.set(token, imageFile);
+        saltIds.set(token, saltId || DEFAULT_SALT_ID);
     }
 
+    if (malformedLines) throw new Error(`Malformed values in ${malformedLines} of ${lines.length} lines of CSV file`);
     if (cashlinks.size === 0) throw new Error('No cashlinks imported.');
-    return { cashlinks, shortLinks, imageFiles };
+    return { cashlinks, shortLinks, imageFiles, saltIds };
+}
+
+/**
+ * Data structure for imported token lists
+ */
+interface ImportedTokens {
+    tokens: /* token id */ string[];
+    shortLinks: Map</* token id */ string, /* link */ string>;
+    saltIds: Map</* token id */ string, /* salt id */ string>;
+}
+
+/**
+ * Imports a list of cashlink tokens from a file
+ * Each line contains either a token or a short link ending with the token. For csv files, the first column is used,
+ * and the salt id is read from the sixth column, if the file is an exported cashlink csv file.
+ * @param file - Path to token list file
+ * @returns Imported tokens, the short links they were specified as and their salt ids where known
+ * @throws If the file contains no or invalid tokens
+ */
+export function importTokens(file: string): ImportedTokens {
+    const content = fs.readFileSync(file, 'utf8');
+    const lines = content.trim().split('\n').map((line) => line.split(',')).filter(([line]) => !!line.trim());
+
+    const tokens = new Set<string>();
+    const shortLinks = new Map<string, string>();
+    const saltIds = new Map<string, string>();
+
+    for (const [rawLine, ...columns] of lines) {
+        const line = rawLine.trim();
+        const token = line.substring(line.lastIndexOf('/') + 1);
+        if (!/^[A-Za-z0-9_-]+$/.test(token)) {
+            throw new Error(`Invalid token in line: ${line}`);
+        }
+        if (tokens.has(token)) continue;
+
+        tokens.add(token);
+        if (token !== line) shortLinks.set(token, line);
+        const saltId = columns[4]?.trim();
+        if (saltId) saltIds.set(token, saltId);
+    }
+
+    if (tokens.size === 0) throw new Error('No tokens imported.');
+    return { tokens: [...tokens], shortLinks, saltIds };
+}
+
+/**
+ * Imports the backup words of funding accounts from a file
+ * Each non-empty line contains the 24 backup words of one account. Word numbers and punctuation, e.g. as copied from
+ * the Nimiq Keyguard, are ignored.
+ * @param file - Path to backup words file
+ * @returns Backup words of each account, in the order of the file
+ * @throws If the file contains no accounts or a line does not contain exactly 24 words
+ */
+export function importBackupWords(file: string): string[][] {
+    const content = fs.readFileSync(file, 'utf8');
+    const accounts = content.trim().split('\n')
+        .filter((line) => !!line.trim())
+        .map((line) => line.toLowerCase().match(/[a-z]+/g) ?? []);
+
+    for (const [index, words] of accounts.entries()) {
+        // the words themselves are not included in the error, as they are secret
+        if (words.length !== 24) throw new Error(`Expected 24 backup words in line ${index + 1}, got ${words.length}`);
+    }
+    if (accounts.length === 0) throw new Error('No backup words imported.');
+    return accounts;
+}
+
+/**
+ * Specification of a tier of cashlinks sharing the same value, message and theme
+ */
+export interface CashlinkTier {
+    count: number;
+    value: number; // in luna
+    message?: string; // default message is applied if not specified
+    theme?: number;
+}
+
+/**
+ * Imports tier specifications for cashlink creation from a JSON or CSV file
+ * JSON files contain an array of objects with properties count, value in NIM and optional message and theme.
+ * CSV files contain lines in the format count,value,theme,message with value in NIM and optional theme and message.
+ * In both formats, themes can be specified by name or number and the message "none" stands for no message. Empty
+ * messages and themes are treated as not specified.
+ * @param file - Path to JSON or CSV file
+ * @returns Imported tiers
+ * @throws If the file is malformed or contains invalid data
+ */
+export function importTiers(file: string): CashlinkTier[] {
+    const content = fs.readFileSync(file, 'utf8');
+
+    let rawTiers: Array<{ count: unknown, value: unknown, message?: unknown, theme?: unknown }>;
+    if (/\.json$/i.test(file)) {
+        rawTiers = JSON.parse(content);
+        if (!Array.isArray(rawTiers)) throw new Error('Tier file must contain an array of tiers');
+    } else {
+        rawTiers = content.trim().split('\n')
+            .filter((line) => !!line.trim() && !/^count,/i.test(line)) // skip empty lines and header
+            .map((line) => {
+                const [count, value, theme, ...message] = line.split(',');
+                // empty columns, e.g. in 10,1,, are treated as missing
+                return { count, value, theme: theme || undefined, message: message.join(',') || undefined };
+            });
+    }
+
+    const tiers = rawTiers.map(({ count: rawCount, value: rawValue, message, theme }) => {
+        const count = Number(rawCount);
+        if (!Number.isInteger(count) || count <= 0) throw new Error(`Invalid cashlink count ${rawCount} in tier file`);
+        const value = Math.round(Number(rawValue) * 1e5);
+        if (Number.isNaN(value) || value <= 0) throw new Error(`Invalid cashlink value ${rawValue} in tier file`);
+        if (message !== undefined && typeof message !== 'string') throw new Error('Invalid message in tier file');
+        if (theme !== undefined && typeof theme !== 'string' && typeof theme !== 'number') {
+            throw new Error('Invalid theme in tier file');
+        }
+
+        return {
+            count,
+            value,
+            message: message?.trim() ? message.replace(/^none$/, '') : undefined,
+            theme: theme !== undefined ? parseCashlinkTheme(theme.toString()) : undefined,
+        };
+    });
+
+    if (tiers.length === 0) throw new Error('No tiers imported.');
+    return tiers;
 }
 
 /**
@@ -64,12 +205,14 @@ export function importCashlinks(file: string): ImportedData {
  * @param cashlinks - Map of cashlinks to export
  * @param shortLinks - Optional map of short links
  * @param imageFiles - Map of image file references
+ * @param saltIds - Map of the ids of the salts the cashlinks were created with
  * @param file - Output file path
  */
 export function exportCashlinks(
     cashlinks: Map<string, Cashlink>,
     shortLinks: Map<string, string> | null,
     imageFiles: Map<string, string>,
+    saltIds: Map<string, string>,
     file: string,
 ): void {
     const lines = [...cashlinks].map(([token, cashlink]) => {
@@ -77,8 +220,9 @@ export function exportCashlinks(
         const imageFile = imageFiles.get(token) || '';
         const cashlinkUrl = cashlink.render();
         const privateKeyBase64 = BufferUtils.toBase64(cashlink.keyPair.privateKey.serialize());
+        const saltId = saltIds.get(token) || '';
 
-        return `${token},${shortLink},${imageFile},${cashlinkUrl},${privateKeyBase64}`;
+        return `${token},${shortLink},${imageFile},${cashlinkUrl},${privateKeyBase64},${saltId}`;
     });
 
     fs.writeFileSync(file, lines.join('\n'));
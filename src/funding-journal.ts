@@ -0,0 +1,113 @@
+/**
+ * Nimiq Cashlink Funding Journal
+ * Persists the funding transactions of cashlinks, such that interrupted funding runs can be resumed.
+ *
+ * Features:
+ * - Append-only journal file next to the exported cashlinks
+ * - Record transactions before they are sent, such that no sent transaction goes unnoticed
+ * - Track the state of each cashlink's funding transaction
+ * - Keep signed transactions, such that they can be checked and resent as is
+ *
+ * The funding journal ensures that cashlinks are not funded twice.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { Transaction } from '@nimiq/core';
+import { TransactionState } from './rpc-client.ts';
+
+export const FUNDING_JOURNAL_FILENAME = 'funding-journal.csv';
+
+/**
+ * Latest journal entry of a cashlink
+ */
+export interface FundingJournalEntry {
+    token: string;
+    state: TransactionState;
+    transaction: Transaction;
+}
+
+/**
+ * Append-only journal of cashlink funding transactions
+ * Each line has the format token,state,transactionHash,rawTransactionHex. For each token, the last line is valid.
+ */
+export class FundingJournal {
+    private _file: string;
+    private _entries = new Map</* token */ string, FundingJournalEntry>();
+
+    /**
+     * Opens the funding journal of a cashlink folder, loading existing entries
+     * An unterminated last line, as left by a crash while recording an entry, is removed from the file. As entries are
+     * recorded before sending a transaction, the transaction of such an entry was not sent.
+     * @param folder - Folder of the exported cashlinks
+     * @throws If the existing journal file is malformed
+     */
+    constructor(folder: string) {
+        this._file = path.join(folder, FUNDING_JOURNAL_FILENAME);
+        if (!fs.existsSync(this._file)) return;
+
+        let content = fs.readFileSync(this._file, 'utf8');
+        if (content && !content.endsWith('\n')) {
+            const lineCount = content.split('\n').length;
+            content = content.substring(0, content.lastIndexOf('\n') + 1);
+            console.log(`Warning: ignoring incomplete line ${lineCount} of funding journal ${this._file}, which was `
+                + 'probably left by an interrupted funding run.');
+            // remove the incomplete line, such that the next entry is not appended to it
+            fs.truncateSync(this._file, Buffer.byteLength(content));
+        }
+        const lines = content.split('\n').filter((line) => !!line);
+        for (const [index, line] of lines.entries()) {
+            const [token, state, hash, rawTransaction] = line.split(',');
+            try {
+                if (!Object.values(TransactionState).some((s) => s === state)) {
+                    throw new Error(`Unknown state ${state}`);
+                }
+                const transaction = Transaction.fromAny(rawTransaction);
+                if (transaction.hash() !== hash) throw new Error('Transaction hash mismatch');
+                this._entries.set(token, { token, state: state as TransactionState, transaction });
+            } catch (error) {
+                throw new Error(`Malformed line ${index + 1} of funding journal ${this._file}: `
+                    + (error instanceof Error ? error.message : String(error)));
+            }
+        }
+    }
+
+    /** Get the path of the journal file */
+    get file(): string {
+        return this._file;
+    }
+
+    /** Get the number of cashlinks with journal entries */
+    get size(): number {
+        return this._entries.size;
+    }
+
+    /**
+     * Gets the latest journal entry of a cashlink
+     * @param token - Token of the cashlink
+     * @returns Latest journal entry, or undefined if the cashlink has no funding transaction yet
+     */
+    get(token: string): FundingJournalEntry | undefined {
+        return this._entries.get(token);
+    }
+
+    /**
+     * Gets the latest journal entries of all cashlinks
+     * @returns Iterator over the latest journal entries
+     */
+    entries(): IterableIterator<FundingJournalEntry> {
+        return this._entries.values();
+    }
+
+    /**
+     * Records the state of a cashlink's funding transaction
+     * The entry is written to disk synchronously, before returning.
+     * @param token - Token of the cashlink
+     * @param transaction - Signed funding transaction
+     * @param state - State of the funding transaction
+     */
+    record(token: string, transaction: Transaction, state: TransactionState): void {
+        fs.appendFileSync(this._file, `${token},${state},${transaction.hash()},${transaction.toHex()}\n`);
+        this._entries.set(token, { token, state, transaction });
+    }
+}
@@ -5,32 +5,101 @@
  * Features:
  * - Create new cashlinks with customizable values, messages, and themes
  * - Import and modify existing cashlinks
- * - Fund cashlinks from a wallet
+ * - Fund cashlinks from one or multiple wallets
+ * - Sign funding transactions offline and broadcast them later
+ * - Fund cashlinks from multisig accounts
  * - Claim unclaimed cashlinks
  * - Generate QR codes and coin images
  * - Create usage statistics
+ * - Recover lost cashlinks from their tokens
+ * - Validate and inspect cashlink URLs
  */
 
 import fs from 'fs';
 import readline from 'readline';
 import path from 'path';
 import { fileURLToPath } from 'url';
-import { Writable } from 'stream';
-import { BufferUtils, SerialBuffer, Hash, PrivateKey, KeyPair, PublicKey, Address, MnemonicUtils } from '@nimiq/core';
+import { BufferUtils, PrivateKey, PublicKey, Address, MnemonicUtils, KeyPair, Policy, Transaction } from '@nimiq/core';
 import crypto from 'crypto';
-import { getConfig } from './config.ts';
-import { prompt } from './utils.ts';
-import { RpcClient } from './rpc-client.ts';
-import { Cashlink, CashlinkTheme } from './cashlink.ts';
-import { exportCashlinks, importCashlinks } from './file-handler.ts';
+import { DEFAULT_SALT_ID, getConfig, getSalt } from './config.ts';
+import { MutableStdout, prompt } from './utils.ts';
+import { Operation, parseCliArguments, type CliOptions } from './cli.ts';
+import { NETWORK_IDS, RpcClient, TransactionState } from './rpc-client.ts';
+import { Cashlink, CashlinkTheme, parseCashlinkTheme } from './cashlink.ts';
+import {
+    exportCashlinks,
+    importBackupWords,
+    importCashlinks,
+    importTiers,
+    importTokens,
+    type CashlinkTier,
+} from './file-handler.ts';
 import renderQrCodes from './render-qr-codes.ts';
 import renderCoins from './render-coins.ts';
-import { claimCashlinks, fundCashlinks } from './cashlink-transaction-handler.ts';
+import {
+    claimCashlinks,
+    classifyFailedClaims,
+    broadcastFundingTransactions,
+    buildMultisigFundingTransactions,
+    createDryRun,
+    formatClaimReport,
+    formatDryRun,
+    formatFundingPreflight,
+    fundCashlinks,
+    getCashlinkBalances,
+    getDefaultTransactionFee,
+    FundingMode,
+    MAX_PENDING_TRANSACTIONS,
+    preflightFunding,
+    signFundingTransactions,
+    splitCashlinks,
+    type DryRun,
+} from './cashlink-transaction-handler.ts';
+import { FundingJournal } from './funding-journal.ts';
+import {
+    countTransactions,
+    formatTransactionSummary,
+    rebroadcastExpiredTransactions,
+    trackTransactions,
+    type TrackedTransactions,
+} from './transaction-tracker.ts';
 import { createStatistics } from './cashlink-statistics-handler.ts';
+import { exportCashlinkStatus, formatStatusSummary, getCashlinkStatuses } from './cashlink-status-handler.ts';
+import { checkRecoveredCashlinks, recoverCashlinks } from './cashlink-recovery-handler.ts';
+import { formatInspection, inspectCashlink } from './cashlink-inspection-handler.ts';
+import { formatPreview, previewCashlink } from './cashlink-preview.ts';
+import {
+    deriveCampaignKeyPairs,
+    loadCampaignAccount,
+    saveCampaignAccount,
+    waitForTopUp,
+} from './campaign-account.ts';
+import { exportSignedTransactions, importSignedTransactions } from './signed-transactions.ts';
+import {
+    combinePartialSignatures,
+    createMultisigCommitments,
+    createPartialSignatures,
+    exportMultisigCommitments,
+    exportMultisigNonces,
+    exportPartialSignatures,
+    importMultisigCommitments,
+    importMultisigNonces,
+    importPartialSignatures,
+    parsePublicKeys,
+} from './multisig-signatures.ts';
+import {
+    filterCashlinks,
+    formatClaimPreview,
+    isClaimFilterActive,
+    type ClaimFilter,
+} from './claim-filter.ts';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
 
+const DEFAULT_CASHLINK_MESSAGE = 'Welcome to Nimiq - Crypto for Humans';
+const MAX_REBROADCAST_ROUNDS = 3; // of rebroadcasting expired transactions after tracking
+
 /**
  * Formats date components with leading zeros
  * @param value - Numeric date component
@@ -68,10 +137,11 @@ function createFolder(): string {
 /**
  * Interactive prompt for cashlink theme selection
  * @param oldCashlinkTheme - Optional current theme for modification
+ * @param themeOption - Optional theme specified via command line, in which case no prompt is shown
  * @returns Selected theme number
  */
-async function promptCashlinkTheme(oldCashlinkTheme?: number): Promise<number> {
-    const cashlinkTheme = await prompt(`${oldCashlinkTheme !== undefined ? 'New ' : ''}Cashlink theme `
+async function promptCashlinkTheme(oldCashlinkTheme?: number, themeOption?: string): Promise<number> {
+    const cashlinkTheme = themeOption ?? await prompt(`${oldCashlinkTheme !== undefined ? 'New ' : ''}Cashlink theme `
         + `[UNSPECIFIED/`
         + Object.keys(CashlinkTheme)
             // filter out https://www.typescriptlang.org/docs/handbook/enums.html#reverse-mappings and UNSPECIFIED
@@ -84,38 +154,30 @@ async function promptCashlinkTheme(oldCashlinkTheme?: number): Promise<number> {
             : '')
         + ']: ',
     );
-    return parseInt(cashlinkTheme)
-        || CashlinkTheme[cashlinkTheme.toUpperCase() as keyof typeof CashlinkTheme]
-        || CashlinkTheme.UNSPECIFIED;
+    return parseCashlinkTheme(cashlinkTheme);
+}
+
+/**
+ * Derives the private key of an account from its backup words
+ * @param backupWords - 24 backup words
+ * @returns Private key of the account's first address
+ */
+function backupWordsToPrivateKey(backupWords: string[]): PrivateKey {
+    const extendedPrivateKey = MnemonicUtils.mnemonicToExtendedPrivateKey(backupWords.join(' '));
+    return extendedPrivateKey.derivePath(`m/44'/242'/0'/0'`).privateKey;
 }
 
 /**
  * Securely prompts for private key input
  * Hides input from display and processes backup words
  * Request backup words. Supports multiline input (pasting words separated by newlines).
+ * @param backupWordsOption - Optional backup words imported from a file, in which case no prompt is shown
  * @returns Promise resolving to private key bytes
  */
-async function promptPrivateKey(): Promise<PrivateKey> {
-    const mutableStdout = new (class MutableStdout extends Writable {
-        private state: { muted: boolean };
-
-        constructor() {
-            const state = { muted: false };
-            super({
-                write: function(chunk: any, encoding: BufferEncoding, callback: (error?: Error | null) => void) {
-                    if (!state.muted) {
-                        process.stdout.write(chunk, encoding);
-                    }
-                    callback();
-                },
-            });
-            this.state = state;
-        }
+async function promptPrivateKey(backupWordsOption?: string[]): Promise<PrivateKey> {
+    if (backupWordsOption) return backupWordsToPrivateKey(backupWordsOption);
 
-        set muted(shouldMute: boolean) {
-            this.state.muted = shouldMute;
-        }
-    })();
+    const mutableStdout = new MutableStdout();
 
     const rl = readline.createInterface({
         input: process.stdin,
@@ -140,105 +202,245 @@ async function promptPrivateKey(): Promise<PrivateKey> {
         });
 
         mutableStdout.muted = true;
-        rl.on('close', () => {
-            const extendedPrivateKey = MnemonicUtils.mnemonicToExtendedPrivateKey(backupWords.join(' '));
-            const privateKey = extendedPrivateKey.derivePath(`m/44'/242'/0'/0'`).privateKey;
-            resolve(privateKey);
-        });
+        rl.on('close', () => resolve(backupWordsToPrivateKey(backupWords)));
     });
 }
 
 interface WizardResult {
     cashlinks: Map<string, Cashlink>;
     shortLinks: Map<string, string> | null;
+    saltIds: Map</* token */ string, /* salt id */ string>;
+}
+
+interface CashlinkProperties {
+    cashlinkValue: number;
+    cashlinkMessage: string;
+    cashlinkTheme: number;
+}
+
+/**
+ * Interactive prompt for the secret salt to create or recover cashlinks with
+ * The prompt is skipped if only a single salt is configured.
+ * @param options - Command line options, which are used instead of prompting where specified
+ * @returns Id of the selected salt
+ * @throws If the selected salt is not configured
+ */
+async function promptSaltId(options: CliOptions): Promise<string> {
+    const { salts } = getConfig();
+    const defaultSaltId = salts.has(DEFAULT_SALT_ID) ? DEFAULT_SALT_ID : salts.keys().next().value!;
+    const saltId = (options.saltId
+        ?? (salts.size > 1
+            ? await prompt(`Secret salt [${[...salts.keys()].join('/')}, default: "${defaultSaltId}"]: `)
+            : defaultSaltId))
+        || defaultSaltId;
+    if (!salts.has(saltId)) throw new Error(`Salt ${saltId} is not configured`);
+    return saltId;
 }
 
 /**
  * Creates cashlinks with specified parameters
- * @param cashlinkCount - Number of cashlinks to create
- * @param cashlinkValue - Value in luna (1 NIM = 100000 luna)
- * @param cashlinkMessage - Message to include in cashlinks
- * @param cashlinkTheme - Theme number for cashlinks
+ * @param tiers - Tiers of cashlinks to create, each with their own count, value, message and theme
+ * @param salt - Base64 encoded secret salt to create the cashlinks with
  * @returns Map of token to Cashlink objects
  */
-function createCashlinks(
-    cashlinkCount: number,
-    cashlinkValue: number,
-    cashlinkMessage: string,
-    cashlinkTheme: number,
-): Map<string, Cashlink> {
+function createCashlinks(tiers: Required<CashlinkTier>[], salt: string): Map<string, Cashlink> {
     const cashlinks = new Map<string, Cashlink>(); // token -> cashlink
     const config = getConfig();
     // secret salt to deterministically calculate cashlinks from random tokens
-    const secretSalt = BufferUtils.fromBase64(config.salt);
-
-    while (cashlinks.size < cashlinkCount) {
-        const tokenEntropy = config.tokenLength * 6; // in bit. Tokens are base64. Each base64 char encodes 6 bit.
-        const randomBytes = crypto.randomBytes(Math.ceil(tokenEntropy / 8));
-        const token = BufferUtils.toBase64Url(randomBytes).substring(0, config.tokenLength);
-        if (cashlinks.has(token)) continue;
-
-        const tokenBytes = BufferUtils.fromBase64Url(token);
-        const saltedTokenBytes = new SerialBuffer(tokenBytes.length + secretSalt.length);
-        saltedTokenBytes.write(tokenBytes);
-        saltedTokenBytes.write(secretSalt);
-        const privateKeyBytes = Hash.computeBlake2b(saltedTokenBytes);
-        const privateKey = PrivateKey.deserialize(privateKeyBytes);
-        const keyPair = KeyPair.derive(privateKey);
-
-        cashlinks.set(
-            token,
-            new Cashlink(config.cashlinkBaseUrl, keyPair, cashlinkValue, cashlinkMessage, cashlinkTheme),
-        );
+    const secretSalt = BufferUtils.fromBase64(salt);
+
+    for (const { count, value, message, theme } of tiers) {
+        // tokens are unique across all tiers
+        const tierEnd = cashlinks.size + count;
+        while (cashlinks.size < tierEnd) {
+            const tokenEntropy = config.tokenLength * 6; // in bit. Tokens are base64. Each base64 char encodes 6 bit.
+            const randomBytes = crypto.randomBytes(Math.ceil(tokenEntropy / 8));
+            const token = BufferUtils.toBase64Url(randomBytes).substring(0, config.tokenLength);
+            if (cashlinks.has(token)) continue;
+
+            const keyPair = Cashlink.deriveKeyPair(token, secretSalt);
+            cashlinks.set(token, new Cashlink(config.cashlinkBaseUrl, keyPair, value, message, theme));
+        }
     }
     return cashlinks;
 }
 
 /**
- * Interactive wizard for cashlink creation
- * Guides user through the process of creating new cashlinks
- * @returns Created cashlinks and optional short links
+ * Prints a size preview of a cashlink and asks for confirmation of its message
+ * @param cashlink - Cashlink with the message to preview
+ * @param options - Command line options. The confirmation is skipped if the message was specified via options.
+ * @returns Boolean indicating if the message was confirmed
  */
-async function wizardCreateCashlinks(): Promise<WizardResult> {
-    const cashlinkCount = parseInt(await prompt('How many Cashlinks do you want to create?: '));
-    if (Number.isNaN(cashlinkCount) || cashlinkCount <= 0) {
-        throw new Error(`Invalid cashlink count ${cashlinkCount}`);
-    }
+async function confirmCashlinkPreview(cashlink: Cashlink, options: CliOptions): Promise<boolean> {
+    console.log(`\nPreview of Cashlink size:\n${formatPreview(previewCashlink(cashlink))}`);
+    return options.message !== undefined || !!options.yes
+        || await prompt('Continue with this message? [Y/n]: ') !== 'n';
+}
 
-    const cashlinkValue = Math.round(parseFloat(await prompt('Cashlink value in NIM: ')) * 1e5);
+/**
+ * Interactive prompts for the value, message and theme of a batch of cashlinks
+ * @param options - Command line options, which are used instead of prompting where specified
+ * @param preview - Whether to preview the size of the resulting cashlinks before accepting the message
+ * @returns Selected cashlink properties
+ */
+async function promptCashlinkProperties(options: CliOptions, preview = false): Promise<CashlinkProperties> {
+    const cashlinkValue = Math.round(parseFloat(options.value ?? await prompt('Cashlink value in NIM: ')) * 1e5);
     if (Number.isNaN(cashlinkValue) || cashlinkValue <= 0) {
         throw new Error('Invalid cashlink value');
     }
 
-    const defaultCashlinkMessage = 'Welcome to Nimiq - Crypto for Humans';
-    const cashlinkMessage = (await prompt(`Cashlink message ["none"/message, default: "${defaultCashlinkMessage}"]: `)
-        || defaultCashlinkMessage).replace(/^none$/, '');
+    while (true) {
+        const cashlinkMessage = ((options.message
+            ?? await prompt(`Cashlink message ["none"/message, default: "${DEFAULT_CASHLINK_MESSAGE}"]: `))
+            || DEFAULT_CASHLINK_MESSAGE).replace(/^none$/, '');
+
+        const cashlinkTheme = await promptCashlinkTheme(undefined, options.theme);
+
+        if (!preview) return { cashlinkValue, cashlinkMessage, cashlinkTheme };
+
+        // preview on a sample cashlink, as the size does not depend on the actual key
+        const sampleCashlink = new Cashlink(
+            getConfig().cashlinkBaseUrl,
+            KeyPair.generate(),
+            cashlinkValue,
+            cashlinkMessage,
+            cashlinkTheme,
+        );
+        if (await confirmCashlinkPreview(sampleCashlink, options)) {
+            return { cashlinkValue, cashlinkMessage, cashlinkTheme };
+        }
+    }
+}
+
+/**
+ * Interactive prompts for the tiers of cashlinks to create
+ * Tiers can either be loaded from a tier file or be specified via repeated prompts
+ * @param options - Command line options, which are used instead of prompting where specified
+ * @returns Tiers of cashlinks to create
+ */
+async function promptCashlinkTiers(options: CliOptions): Promise<Required<CashlinkTier>[]> {
+    let countOrTierFile = options.tiers ?? options.count
+        ?? await prompt('How many Cashlinks do you want to create? [number/path to a .json or .csv tier file]: ');
+
+    const tierFile = path.resolve(process.cwd(), countOrTierFile);
+    if (options.tiers !== undefined || (!/^\s*\d+\s*$/.test(countOrTierFile) && fs.existsSync(tierFile))) {
+        // tiers without message or theme fall back to the ones specified via command line, or the defaults
+        const defaultMessage = (options.message || DEFAULT_CASHLINK_MESSAGE).replace(/^none$/, '');
+        const defaultTheme = parseCashlinkTheme(options.theme ?? '');
+        const tiers = importTiers(tierFile).map(({ count, value, message, theme }) => ({
+            count,
+            value,
+            message: message ?? defaultMessage,
+            theme: theme ?? defaultTheme,
+        }));
+        console.log(`${tiers.length} tiers loaded.`);
+        return tiers;
+    }
+
+    const tiers: Required<CashlinkTier>[] = [];
+    let tierOptions = options;
+    while (true) {
+        const cashlinkCount = parseInt(countOrTierFile);
+        if (Number.isNaN(cashlinkCount) || cashlinkCount <= 0) {
+            throw new Error(`Invalid cashlink count ${cashlinkCount}`);
+        }
 
-    const cashlinkTheme = await promptCashlinkTheme();
+        const { cashlinkValue, cashlinkMessage, cashlinkTheme } = await promptCashlinkProperties(tierOptions, true);
+        tiers.push({ count: cashlinkCount, value: cashlinkValue, message: cashlinkMessage, theme: cashlinkTheme });
+
+        // additional tiers can only be added interactively
+        if (options.count !== undefined
+            || await prompt('Add another tier with a different value, message or theme? [y/N]: ') !== 'y') {
+            return tiers;
+        }
+        tierOptions = {};
+        countOrTierFile = await prompt('How many Cashlinks do you want to create in this tier?: ');
+    }
+}
+
+/**
+ * Interactive wizard for cashlink creation
+ * Guides user through the process of creating new cashlinks
+ * @param options - Command line options, which are used instead of prompting where specified
+ * @returns Created cashlinks and optional short links
+ */
+async function wizardCreateCashlinks(options: CliOptions): Promise<WizardResult> {
+    const saltId = await promptSaltId(options);
+    const salt = await getSalt(saltId);
+    const tiers = await promptCashlinkTiers(options);
 
     const defaultShortLinkBaseUrl = 'https://nim.id/';
-    const shortLinkBaseUrl = (await prompt(`Short link base url ["none"/URL, default: "${defaultShortLinkBaseUrl}"]: `)
+    const shortLinkBaseUrl = ((options.shortLinkBaseUrl
+        ?? await prompt(`Short link base url ["none"/URL, default: "${defaultShortLinkBaseUrl}"]: `))
         || defaultShortLinkBaseUrl).replace(/(?<!^none|[=?&#])\/?$/, '/');
 
     console.log('\nCreating Cashlinks');
-    const cashlinks = createCashlinks(cashlinkCount, cashlinkValue, cashlinkMessage, cashlinkTheme);
+    const cashlinks = createCashlinks(tiers, salt);
+    if (tiers.length > 1) {
+        for (const { count, value, message, theme } of tiers) {
+            console.log(`    ${count} x ${value / 1e5} NIM, message "${message}", `
+                + `theme ${CashlinkTheme[theme]?.toLowerCase() || theme}`);
+        }
+    }
 
     const shortLinks = shortLinkBaseUrl !== 'none'
         ? new Map([...cashlinks.keys()].map((token): [string, string] => [token, `${shortLinkBaseUrl}${token}`]))
         : null;
 
-    console.log(`${cashlinks.size} Cashlinks created.\n`);
+    const saltIds = new Map([...cashlinks.keys()].map((token): [string, string] => [token, saltId]));
 
-    return { cashlinks, shortLinks };
+    console.log(`${cashlinks.size} Cashlinks created with salt ${saltId}.\n`);
+
+    return { cashlinks, shortLinks, saltIds };
 }
 
-enum Operation {
-    CHANGE_MESSAGE = 'change-message',
-    CHANGE_THEME = 'change-theme',
-    CREATE_IMAGES = 'create-images',
-    FUND = 'fund',
-    CLAIM = 'claim',
-    STATISTICS = 'statistics',
+/**
+ * Interactive wizard for cashlink recovery
+ * Guides user through the process of rebuilding lost cashlinks from their tokens and the secret salt
+ * @param rpcClient - RPC client for interacting with the Nimiq node
+ * @param options - Command line options, which are used instead of prompting where specified
+ * @returns Recovered cashlinks and optional short links
+ */
+async function wizardRecoverCashlinks(rpcClient: RpcClient, options: CliOptions): Promise<WizardResult> {
+    const tokensFile = path.resolve(process.cwd(), options.tokens
+        ?? await prompt('Path to the file with the tokens or short links of the Cashlinks to recover: '));
+    const { tokens, shortLinks, saltIds } = importTokens(tokensFile);
+    console.log(`${tokens.length} tokens loaded${saltIds.size ? `, ${saltIds.size} of them with salt id` : ''}.\n`);
+
+    if (saltIds.size < tokens.length) {
+        console.log('Specify the secret salt the Cashlinks without salt id have been created with.');
+        const saltId = await promptSaltId(options);
+        for (const token of tokens) {
+            if (!saltIds.has(token)) saltIds.set(token, saltId);
+        }
+    }
+
+    console.log('Specify the properties the Cashlinks have been created with.');
+    const { cashlinkValue, cashlinkMessage, cashlinkTheme } = await promptCashlinkProperties(options);
+
+    const salts = new Map<string, string>();
+    for (const saltId of new Set(saltIds.values())) {
+        salts.set(saltId, await getSalt(saltId));
+    }
+
+    console.log('\nRecovering Cashlinks');
+    const config = getConfig();
+    const cashlinks = recoverCashlinks(
+        tokens,
+        saltIds,
+        salts,
+        config.cashlinkBaseUrl,
+        cashlinkValue,
+        cashlinkMessage,
+        cashlinkTheme,
+    );
+    console.log(`${cashlinks.size} Cashlinks recovered.\n`);
+
+    console.log('Checking balances of recovered Cashlinks');
+    await checkRecoveredCashlinks(cashlinks, rpcClient);
+    console.log();
+
+    return { cashlinks, shortLinks: shortLinks.size ? shortLinks : null, saltIds };
 }
 
 type ImageFiles = Map<string, string>;
@@ -249,14 +451,16 @@ type ImageFiles = Map<string, string>;
  * @param cashlinks - Map of cashlink tokens to Cashlink objects
  * @param shortLinks - Optional map of short links
  * @param folder - Output folder for generated images
+ * @param options - Command line options, which are used instead of prompting where specified
  * @returns Map of token to image file paths
  */
 async function wizardCreateImages(
     cashlinks: Map<string, Cashlink>,
     shortLinks: Map<string, string> | null,
     folder: string,
+    options: CliOptions,
 ): Promise<ImageFiles> {
-    const format = await prompt('Choose an output format [QR/coin]: ');
+    const format = options.format ?? await prompt('Choose an output format [QR/coin]: ');
     let imageFiles: ImageFiles;
 
     if (format.toLowerCase() !== 'coin') {
@@ -274,63 +478,611 @@ async function wizardCreateImages(
     return imageFiles;
 }
 
+/**
+ * Interactive prompt for the fee of paid transactions
+ * Unattended runs use the default fee, unless specified.
+ * @param options - Command line options, which are used instead of prompting where specified
+ * @returns Fee per transaction in luna
+ * @throws If the fee is invalid
+ */
+async function promptTransactionFee(options: CliOptions): Promise<number> {
+    const defaultFee = getDefaultTransactionFee();
+    const fee = Math.round(parseFloat((options.fee
+        ?? (options.yes ? '' : await prompt(`Fee per transaction in NIM [default: ${defaultFee / 1e5}]: `)))
+        || String(defaultFee / 1e5)) * 1e5);
+    if (Number.isNaN(fee) || fee <= 0) throw new Error('Invalid transaction fee');
+    return fee;
+}
+
+/**
+ * Interactive prompts for the funding mode and the fee of funding transactions
+ * Unless specified, unattended funding runs are free.
+ * @param options - Command line options, which are used instead of prompting where specified
+ * @returns Fee per funding transaction in luna, zero for free funding
+ * @throws If the funding mode or fee is invalid, or a fee is specified for free funding
+ */
+async function promptFundingFee(options: CliOptions): Promise<number> {
+    const fundingModes = Object.values(FundingMode)
+        .map((mode) => `${mode} (up to ${MAX_PENDING_TRANSACTIONS[mode]} pending transactions)`);
+    const fundingMode = (options.fundingMode ?? (options.yes ? '' : await prompt(`Funding mode `
+        + `[${fundingModes.join('/')}, default: ${FundingMode.FREE}]: `)))
+        || FundingMode.FREE;
+    if (!Object.values(FundingMode).some((mode) => mode === fundingMode)) {
+        throw new Error(`Invalid funding mode ${fundingMode}`);
+    }
+    if (fundingMode !== FundingMode.PAID) {
+        if (options.fee !== undefined) throw new Error('--fee requires --funding-mode paid');
+        return 0;
+    }
+    return promptTransactionFee(options);
+}
+
+/**
+ * Interactive prompts for the claiming mode and the fee of claiming transactions
+ * Unless specified, unattended claims keep claiming for free.
+ * @param options - Command line options, which are used instead of prompting where specified
+ * @returns Fee per claiming transaction in luna, zero for free claiming
+ * @throws If the claiming mode or fee is invalid, or a fee is specified for free claiming
+ */
+async function promptClaimingFee(options: CliOptions): Promise<number> {
+    const claimingMode = (options.claimingMode ?? (options.yes ? '' : await prompt(`Claiming mode [${FundingMode.FREE}/`
+        + `${FundingMode.PAID} (fee deducted from each Cashlink), default: ${FundingMode.FREE}]: `)))
+        || FundingMode.FREE;
+    if (!Object.values(FundingMode).some((mode) => mode === claimingMode)) {
+        throw new Error(`Invalid claiming mode ${claimingMode}`);
+    }
+    if (claimingMode !== FundingMode.PAID) {
+        if (options.fee !== undefined) throw new Error('--fee requires --claiming-mode paid');
+        return 0;
+    }
+    return promptTransactionFee(options);
+}
+
+/**
+ * Interactive wizard for setting up the campaign funding accounts, which are derived from the secret salt
+ * The accounts of previous funding runs are reused. The wizard waits until each account has been topped up.
+ * @param saltIds - Salt ids of the cashlinks, for picking the salt to derive the accounts from
+ * @param folder - Folder of the exported cashlinks, in which the campaign account file is kept
+ * @param walletCosts - Value plus fee in luna of each funding transaction, per funding account
+ * @param rpcClient - RPC client for interacting with the Nimiq node
+ * @param options - Command line options, which are used instead of prompting where specified
+ * @returns Private keys of the funding accounts
+ */
+async function wizardCampaignFundingKeys(
+    saltIds: Map<string, string>,
+    folder: string,
+    walletCosts: number[][],
+    rpcClient: RpcClient,
+    options: CliOptions,
+): Promise<PrivateKey[]> {
+    const existingAccount = loadCampaignAccount(folder);
+    const cashlinkSaltIds = new Set(saltIds.values());
+    const saltId = existingAccount?.saltId
+        ?? (cashlinkSaltIds.size === 1 ? cashlinkSaltIds.values().next().value! : await promptSaltId(options));
+    const defaultCampaignId = path.basename(folder);
+    const campaignId = existingAccount?.campaignId
+        ?? ((options.campaign ?? await prompt(`Campaign id [default: ${defaultCampaignId}]: `)) || defaultCampaignId);
+    if (options.campaign !== undefined && options.campaign !== campaignId) {
+        throw new Error(`The Cashlinks were already funded from campaign ${campaignId}`);
+    }
+
+    const keyPairs = deriveCampaignKeyPairs(await getSalt(saltId), campaignId,
+        Math.max(walletCosts.length, existingAccount?.addresses.length || 0));
+    const addresses = keyPairs.map((keyPair) => keyPair.toAddress().toUserFriendlyAddress());
+    if (!options.dryRun) saveCampaignAccount(folder, { campaignId, saltId, addresses });
+
+    const walletShares = walletCosts.map((costs) => costs.reduce((sum, cost) => sum + cost, 0));
+    console.log(`\nFunding from the account${walletShares.length > 1 ? 's' : ''} of campaign ${campaignId}, derived `
+        + `from salt ${saltId}. Please top up:`);
+    for (const [index, share] of walletShares.entries()) {
+        console.log(`    ${addresses[index]} with at least ${share / 1e5} NIM`);
+    }
+    for (const [index, share] of walletShares.entries()) {
+        // dry runs do not wait, as they don't need the funds
+        if (!options.dryRun) await waitForTopUp(addresses[index], share, rpcClient);
+        console.log(formatFundingPreflight(await preflightFunding(addresses[index], walletCosts[index], rpcClient)));
+    }
+    return keyPairs.slice(0, walletShares.length).map((keyPair) => keyPair.privateKey);
+}
+
 /**
  * Interactive wizard for funding cashlinks
- * Guides user through the process of funding cashlinks from a wallet
+ * Guides user through the process of funding cashlinks from imported wallets or derived campaign accounts
  * @param cashlinks - Map of cashlink tokens to Cashlink objects
+ * @param saltIds - Salt ids of the cashlinks, for deriving campaign accounts
+ * @param folder - Folder of the exported cashlinks, in which the funding journal is kept
  * @param rpcClient - RPC client for interacting with the Nimiq node
+ * @param options - Command line options, which are used instead of prompting where specified
  */
-async function wizardFundCashlinks(cashlinks: Map<string, Cashlink>, rpcClient: RpcClient) {
-    const totalValue = [...cashlinks.values()].reduce((sum, cashlink) => sum + cashlink.value, 0);
-    const fee = 0;
+async function wizardFundCashlinks(
+    cashlinks: Map<string, Cashlink>,
+    saltIds: Map<string, string>,
+    folder: string,
+    rpcClient: RpcClient,
+    options: CliOptions,
+) {
+    const journal = new FundingJournal(folder);
+    if (journal.size) {
+        console.log(`\nFound funding journal with funding transactions for ${journal.size} Cashlinks. Resuming `
+            + 'funding, skipping Cashlinks with a confirmed or pending funding transaction or an existing balance.');
+    }
+    // estimate based on the journal, without checking the states of pending transactions or balances
+    const unfundedCashlinks = [...cashlinks].filter(([token]) => {
+        const state = journal.get(token)?.state;
+        return state !== TransactionState.CONFIRMED && state !== TransactionState.PENDING;
+    });
+    const totalValue = unfundedCashlinks.reduce((sum, [, cashlink]) => sum + cashlink.value, 0);
+
+    const fee = await promptFundingFee(options);
+    const walletCount = parseInt((options.wallets
+        ?? await prompt('Number of wallets to fund from in parallel [default: 1]: ')) || '1', 10);
+    if (Number.isNaN(walletCount) || walletCount < 1) throw new Error('Invalid number of wallets');
+    // the funding costs of each wallet, based on the same estimate and split like the cashlinks are split for funding
+    const unfundedTokens = new Set(unfundedCashlinks.map(([token]) => token));
+    const walletCosts = splitCashlinks(cashlinks, walletCount).map((batch) => [...batch]
+        .filter(([token]) => unfundedTokens.has(token))
+        .map(([, cashlink]) => cashlink.value + fee));
+    const walletShares = walletCosts.map((costs) => costs.reduce((sum, cost) => sum + cost, 0));
+    const totalFees = fee * unfundedCashlinks.length;
+
+    const defaultFundingAccount = loadCampaignAccount(folder) ? 'campaign' : 'import';
+    const fundingAccount = (options.fundingAccount ?? await prompt('Funding account [import (existing wallets via '
+        + `backup words)/campaign (derived from the secret salt), default: ${defaultFundingAccount}]: `))
+        || defaultFundingAccount;
+    if (fundingAccount !== 'import' && fundingAccount !== 'campaign') {
+        throw new Error(`Invalid funding account ${fundingAccount}`);
+    }
 
     console.log('\nBefore funding the Cashlinks, please check the generated assets.');
-    console.log('To continue with funding, please import an account via its backup words to use for funding and make '
-        + `sure it holds at least ${totalValue / 1e5} NIM (with fees ${(totalValue + fee * cashlinks.size) / 1e5} NIM).`
-        // The past showed that it's recommendable to create separate keys for each Cashlink campaign for better
-        // bookkeeping, for example if unclaimed Cashlinks are to be reclaimed, they can be reclaimed to the funding
-        // address that was created just for that campaign and then be sent back to some more generic marketing account
-        // from there. Using a regularly used key instead of a separate key is not recommended and can be inconvenient
-        // because Cashlink generation and reclaiming leads to a lot of transactions on that address which clutter the
-        // transaction history and are extra effort to sync in the Wallet because it matches each Cashlink with its
-        // final recipient, so has to end up querying each Cashlink address as well.
-        + 'Note that it\'s recommendable to create a new key only for this operation.');
-
-    const privateKey = await promptPrivateKey();
-    const address = PublicKey.derive(privateKey).toAddress();
-    const userFriendlyAddress = address.toUserFriendlyAddress();
-    const balance = await rpcClient.getBalance(userFriendlyAddress);
-
-    console.log(`Using address ${userFriendlyAddress} with balance ${balance / 1e5}`);
-    if (balance < totalValue) throw new Error('Not enough balance.');
-    if (await prompt('Ok? [y/N]: ') !== 'y') {
+    let privateKeys: PrivateKey[] = [];
+    if (fundingAccount === 'campaign') {
+        privateKeys = await wizardCampaignFundingKeys(saltIds, folder, walletCosts, rpcClient, options);
+    } else {
+        console.log(walletCount > 1
+            ? `To continue with funding, please import ${walletCount} accounts via their backup words to use for `
+                + `funding and make sure they hold at least ${totalValue / 1e5} NIM in total (with fees `
+                + `${(totalValue + totalFees) / 1e5} NIM), split as `
+                + `${walletShares.map((share) => share / 1e5).join(' / ')} NIM including fees. `
+            : 'To continue with funding, please import an account via its backup words to use for funding and make '
+                + `sure it holds at least ${totalValue / 1e5} NIM `
+                + `(with fees ${(totalValue + totalFees) / 1e5} NIM). `
+            // The past showed that it's recommendable to create separate keys for each Cashlink campaign for better
+            // bookkeeping, for example if unclaimed Cashlinks are to be reclaimed, they can be reclaimed to the
+            // funding address that was created just for that campaign and then be sent back to some more generic
+            // marketing account from there. Using a regularly used key instead of a separate key is not recommended
+            // and can be inconvenient because Cashlink generation and reclaiming leads to a lot of transactions on
+            // that address which clutter the transaction history and are extra effort to sync in the Wallet because
+            // it matches each Cashlink with its final recipient, so has to end up querying each Cashlink address as
+            // well. The campaign funding accounts provide such separate keys without the need to create them manually.
+            + 'Note that it\'s recommendable to create new keys only for this operation, or to use campaign accounts.');
+
+        const backupWords = options.backupWordsFile ? importBackupWords(options.backupWordsFile) : null;
+        if (backupWords && backupWords.length !== walletCount) {
+            throw new Error(`Expected the backup words of ${walletCount} accounts in ${options.backupWordsFile}, `
+                + `got ${backupWords.length}`);
+        }
+        for (const [index, costs] of walletCosts.entries()) {
+            if (walletCount > 1) console.log(`\nWallet ${privateKeys.length + 1} of ${walletCount}`);
+            const privateKey = await promptPrivateKey(backupWords?.[index]);
+            const userFriendlyAddress = PublicKey.derive(privateKey).toAddress().toUserFriendlyAddress();
+            if (privateKeys.some((key) => key.equals(privateKey))) {
+                throw new Error(`Address ${userFriendlyAddress} was imported twice.`);
+            }
+            const preflight = await preflightFunding(userFriendlyAddress, costs, rpcClient);
+            console.log(formatFundingPreflight(preflight));
+            if (preflight.fundable < preflight.total && !options.dryRun) throw new Error('Not enough balance.');
+            if (preflight.fundable < preflight.total) {
+                console.log('Not enough balance, which is ignored for the dry run.');
+            }
+            privateKeys.push(privateKey);
+        }
+    }
+
+    if (options.dryRun) {
+        console.log('\nBuilding and signing funding transactions without sending them');
+        const dryRun = createDryRun();
+        await fundCashlinks(cashlinks, fee, privateKeys, rpcClient, journal, dryRun);
+        await wizardReportDryRun(dryRun, 'funding', folder, options);
+        return;
+    }
+    if (!options.yes && await prompt('Ok? [y/N]: ') !== 'y') {
         console.log('Not funding Cashlinks.');
         return;
     }
 
     console.log('\nFunding Cashlinks');
-    await fundCashlinks(cashlinks, fee, privateKey, rpcClient);
+    const transactions = await fundCashlinks(cashlinks, fee, privateKeys, rpcClient, journal);
+    await wizardTrackTransactions(transactions, 'funding', rpcClient, options, journal);
     console.log('Cashlinks funded.');
 }
 
+/**
+ * Interactive wizard for signing funding transactions offline
+ * Guides user through the process of signing funding transactions without a connection to a node and exporting them
+ * for broadcasting them later from an online machine.
+ * @param cashlinks - Map of cashlink tokens to Cashlink objects
+ * @param folder - Folder of the exported cashlinks, in which the funding journal is kept
+ * @param options - Command line options, which are used instead of prompting where specified
+ */
+async function wizardSignFundingTransactions(
+    cashlinks: Map<string, Cashlink>,
+    folder: string,
+    options: CliOptions,
+): Promise<void> {
+    const journal = new FundingJournal(folder);
+    if (journal.size) {
+        console.log(`\nFound funding journal with funding transactions for ${journal.size} Cashlinks. Skipping `
+            + 'Cashlinks with a confirmed or pending funding transaction.');
+    }
+    const fee = await promptFundingFee(options);
+    const validityStartHeight = parseInt(options.validityStartHeight ?? await prompt('Validity start height, i.e. the '
+        + 'current block height as shown by a block explorer or your online node: '), 10);
+    if (!Number.isInteger(validityStartHeight) || validityStartHeight < 0) {
+        throw new Error('Invalid validity start height');
+    }
+    const { network } = getConfig();
+    const networkId = parseInt((options.networkId
+        ?? await prompt(`Network id [default: ${NETWORK_IDS[network]} (${network})]: `))
+        || String(NETWORK_IDS[network]), 10);
+    if (!Number.isInteger(networkId)) throw new Error('Invalid network id');
+
+    const backupWords = options.backupWordsFile ? importBackupWords(options.backupWordsFile) : null;
+    if (backupWords && backupWords.length !== 1) {
+        throw new Error(`Expected the backup words of 1 account in ${options.backupWordsFile}, `
+            + `got ${backupWords.length}`);
+    }
+    if (!backupWords) console.log('\nPlease import the account to fund the Cashlinks from via its backup words.');
+    const privateKey = await promptPrivateKey(backupWords?.[0]);
+    const address = PublicKey.derive(privateKey).toAddress().toUserFriendlyAddress();
+    const transactions = signFundingTransactions(cashlinks, fee, privateKey, validityStartHeight, networkId, journal);
+    const totalValue = [...transactions.values()].reduce((sum, transaction) => sum + Number(transaction.value), 0);
+    console.log(`Signed ${transactions.size} funding transactions from ${address} with a total value of `
+        + `${totalValue / 1e5} NIM (with fees ${(totalValue + fee * transactions.size) / 1e5} NIM), `
+        + `${cashlinks.size - transactions.size} Cashlinks skipped. The transactions are valid from block `
+        + `${validityStartHeight} to ${validityStartHeight + Policy.TRANSACTION_VALIDITY_WINDOW_BLOCKS - 1}, i.e. `
+        + 'for about two hours, and need to be broadcast within that time.');
+    if (!transactions.size) return;
+
+    const defaultFile = `${folder || '.'}/${getCurrentDateString()} signed funding transactions.csv`
+        .replace(__dirname, '.');
+    const file = (options.signedFile ?? await prompt(`Export the signed transactions to [default: ${defaultFile}]: `))
+        || defaultFile;
+    exportSignedTransactions(transactions, file);
+    console.log(`Signed funding transactions exported to ${file}. Transfer it to an online machine and broadcast it `
+        + `via: yarn main ${Operation.BROADCAST}`);
+}
+
+/**
+ * Interactive wizard for broadcasting funding transactions signed offline
+ * Guides user through the process of sending previously signed funding transactions and tracking them.
+ * @param cashlinks - Map of cashlink tokens to Cashlink objects
+ * @param folder - Folder of the exported cashlinks, in which the funding journal is kept
+ * @param rpcClient - RPC client for interacting with the Nimiq node
+ * @param options - Command line options, which are used instead of prompting where specified
+ */
+async function wizardBroadcastFundingTransactions(
+    cashlinks: Map<string, Cashlink>,
+    folder: string,
+    rpcClient: RpcClient,
+    options: CliOptions,
+): Promise<void> {
+    const file = options.signedFile ?? await prompt('Signed transactions file: ');
+    const signedTransactions = importSignedTransactions(path.resolve(process.cwd(), file));
+    console.log(`${signedTransactions.size} signed funding transactions loaded.`);
+
+    const blockHeight = await rpcClient.getBlockHeight();
+    const invalidTokens = [...signedTransactions]
+        .filter(([, transaction]) => !transaction.isValidAt(blockHeight))
+        .map(([token]) => token);
+    if (invalidTokens.length) {
+        console.log(`${invalidTokens.length} transactions are not valid at the current block height ${blockHeight} `
+            + `and are skipped. Sign them again: ${invalidTokens.join(', ')}`);
+        for (const token of invalidTokens) signedTransactions.delete(token);
+    }
+
+    const journal = new FundingJournal(folder);
+    // estimate based on the journal, without checking the states of pending transactions or balances
+    const senderCosts = new Map</* sender address */ string, number[]>();
+    for (const [token, transaction] of signedTransactions) {
+        const state = journal.get(token)?.state;
+        if (state === TransactionState.CONFIRMED || state === TransactionState.PENDING) continue;
+        const sender = transaction.sender.toUserFriendlyAddress();
+        senderCosts.set(sender, [...senderCosts.get(sender) || [], Number(transaction.value + transaction.fee)]);
+    }
+    for (const [sender, costs] of senderCosts) {
+        const preflight = await preflightFunding(sender, costs, rpcClient);
+        console.log(formatFundingPreflight(preflight));
+        if (preflight.fundable < preflight.total) throw new Error('Not enough balance.');
+    }
+    if (!signedTransactions.size) return;
+    if (!options.yes && await prompt('Ok? [y/N]: ') !== 'y') {
+        console.log('Not broadcasting funding transactions.');
+        return;
+    }
+
+    console.log('\nBroadcasting funding transactions');
+    const transactions = await broadcastFundingTransactions(cashlinks, signedTransactions, rpcClient, journal);
+    await wizardTrackTransactions(transactions, 'funding', rpcClient, options, journal);
+    console.log('Cashlinks funded.');
+}
+
+/**
+ * Interactive wizard for preparing funding transactions of a multisig account
+ * Guides user through the process of building unsigned funding transactions and exporting them for the co-signers.
+ * @param cashlinks - Map of cashlink tokens to Cashlink objects
+ * @param folder - Folder of the exported cashlinks, in which the funding journal is kept
+ * @param rpcClient - RPC client for interacting with the Nimiq node
+ * @param options - Command line options, which are used instead of prompting where specified
+ */
+async function wizardPrepareMultisigFunding(
+    cashlinks: Map<string, Cashlink>,
+    folder: string,
+    rpcClient: RpcClient,
+    options: CliOptions,
+): Promise<void> {
+    const journal = new FundingJournal(folder);
+    const fee = await promptFundingFee(options);
+    const multisigAddress = Address.fromUserFriendlyAddress(options.multisigAddress
+        ?? await prompt('Multisig account to fund the Cashlinks from: '));
+    const blockHeight = await rpcClient.getBlockHeight();
+    const validityStartHeight = parseInt((options.validityStartHeight
+        ?? await prompt(`Validity start height [default: current block height ${blockHeight}]: `))
+        || String(blockHeight), 10);
+    if (!Number.isInteger(validityStartHeight) || validityStartHeight < 0) {
+        throw new Error('Invalid validity start height');
+    }
+
+    const transactions = buildMultisigFundingTransactions(cashlinks, fee, multisigAddress, validityStartHeight,
+        NETWORK_IDS[getConfig().network], journal);
+    console.log(`Built ${transactions.size} funding transactions, `
+        + `${cashlinks.size - transactions.size} Cashlinks with a confirmed or pending funding transaction skipped.`);
+    const preflight = await preflightFunding(multisigAddress.toUserFriendlyAddress(),
+        [...transactions.values()].map((transaction) => Number(transaction.value + transaction.fee)), rpcClient);
+    console.log(formatFundingPreflight(preflight));
+    if (preflight.fundable < preflight.total) {
+        console.log('Note that the multisig account needs to be topped up before broadcasting the transactions.');
+    }
+    if (!transactions.size) return;
+
+    const defaultFile = `${folder || '.'}/${getCurrentDateString()} unsigned funding transactions.csv`
+        .replace(__dirname, '.');
+    const file = (options.unsignedFile
+        ?? await prompt(`Export the unsigned transactions to [default: ${defaultFile}]: `)) || defaultFile;
+    exportSignedTransactions(transactions, file);
+    console.log(`Unsigned funding transactions exported to ${file}. Send the file to the co-signers, who sign it in `
+        + `two rounds: first, each co-signer creates nonce commitments via yarn main ${Operation.MULTISIG_COMMIT}. `
+        + 'Once the commitments of all signing co-signers are collected, each of them creates partial signatures via '
+        + `yarn main ${Operation.MULTISIG_SIGN}. Finally, combine the partial signatures via yarn main `
+        + `${Operation.MULTISIG_COMBINE} and broadcast them via yarn main ${Operation.BROADCAST}. The transactions are `
+        + `valid until block ${validityStartHeight + Policy.TRANSACTION_VALIDITY_WINDOW_BLOCKS - 1}, i.e. for about `
+        + 'two hours, and need to be signed, combined and broadcast within that time.');
+}
+
+/**
+ * Prompts for the account of a multisig co-signer
+ * @param options - Command line options, of which the backup words file is used instead of prompting if specified
+ * @returns Private key of the co-signer
+ */
+async function promptCoSignerPrivateKey(options: CliOptions): Promise<PrivateKey> {
+    const backupWords = options.backupWordsFile ? importBackupWords(options.backupWordsFile) : null;
+    if (backupWords && backupWords.length !== 1) {
+        throw new Error(`Expected the backup words of 1 account in ${options.backupWordsFile}, `
+            + `got ${backupWords.length}`);
+    }
+    if (!backupWords) console.log('\nPlease import your co-signer account via its backup words.');
+    return promptPrivateKey(backupWords?.[0]);
+}
+
+/**
+ * Prompts for and imports prepared unsigned multisig transactions and prints what they transfer, for the co-signers
+ * to check what they sign
+ * @param options - Command line options, which are used instead of prompting where specified
+ * @returns Path and unsigned transactions by cashlink token
+ */
+async function promptUnsignedMultisigTransactions(options: CliOptions): Promise<{
+    unsignedFile: string,
+    transactions: Map</* token */ string, Transaction>,
+}> {
+    const unsignedFile = path.resolve(process.cwd(), options.unsignedFile
+        ?? await prompt('Unsigned transactions file: '));
+    const transactions = importSignedTransactions(unsignedFile);
+    const senders = new Set([...transactions.values()]
+        .map((transaction) => transaction.sender.toUserFriendlyAddress()));
+    const totalValue = [...transactions.values()]
+        .reduce((sum, transaction) => sum + Number(transaction.value + transaction.fee), 0);
+    console.log(`Loaded ${transactions.size} transactions from ${[...senders].join(', ')} with a total value `
+        + `including fees of ${totalValue / 1e5} NIM.`);
+    return { unsignedFile, transactions };
+}
+
+/**
+ * Interactive wizard for the first signing round of a multisig co-signer
+ * Guides user through the process of creating secret nonces and the commitments to share with the other co-signers.
+ * Works offline and does not require the Cashlinks.
+ * @param options - Command line options, which are used instead of prompting where specified
+ */
+async function wizardCommitMultisigFunding(options: CliOptions): Promise<void> {
+    const { unsignedFile, transactions } = await promptUnsignedMultisigTransactions(options);
+    const publicKey = PublicKey.derive(await promptCoSignerPrivateKey(options));
+    const { commitments, nonces } = createMultisigCommitments([...transactions.keys()], publicKey);
+
+    const filePrefix = `${path.dirname(unsignedFile)}/${getCurrentDateString()} multisig`;
+    const defaultCommitmentsFile = `${filePrefix} commitments ${publicKey.toHex().substring(0, 8)}.csv`;
+    const commitmentsFile = (options.commitmentsFile
+        ?? await prompt(`Export the commitments to [default: ${defaultCommitmentsFile}]: `)) || defaultCommitmentsFile;
+    const defaultNoncesFile = `${filePrefix} secret nonces ${publicKey.toHex().substring(0, 8)}.csv`;
+    const noncesFile = (options.noncesFile
+        ?? await prompt(`Export the secret nonces to [default: ${defaultNoncesFile}]: `)) || defaultNoncesFile;
+    exportMultisigNonces(nonces, noncesFile);
+    exportMultisigCommitments(commitments, commitmentsFile);
+    console.log(`Commitments exported to ${commitmentsFile}, secret nonces to ${noncesFile}. Your public key is `
+        + `${publicKey.toHex()}. Share the commitments file with the other co-signers, but keep the nonces file `
+        + `secret and only use it once for yarn main ${Operation.MULTISIG_SIGN}, as partial signatures of different `
+        + 'transactions with the same nonces reveal your private key.');
+}
+
+/**
+ * Interactive wizard for the second signing round of a multisig co-signer
+ * Guides user through the process of creating partial signatures from the commitments of all signing co-signers and
+ * the own secret nonces, which are deleted afterwards. Works offline and does not require the Cashlinks.
+ * @param options - Command line options, which are used instead of prompting where specified
+ */
+async function wizardSignMultisigFunding(options: CliOptions): Promise<void> {
+    const { unsignedFile, transactions } = await promptUnsignedMultisigTransactions(options);
+    const commitments = importMultisigCommitments((options.commitmentsFile
+        ?? await prompt('Commitments files of all signing co-signers (comma separated): '))
+        .split(',').map((file) => path.resolve(process.cwd(), file.trim())));
+    const noncesFile = path.resolve(process.cwd(), options.noncesFile ?? await prompt('Your secret nonces file: '));
+    const nonces = importMultisigNonces(noncesFile);
+    const privateKey = await promptCoSignerPrivateKey(options);
+    const signerCounts = new Set([...commitments.values()].map((tokenCommitments) => tokenCommitments.length));
+    console.log(`Signing together with ${[...signerCounts].map((count) => count - 1).join(' or ')} other co-signers.`);
+    if (!options.yes && await prompt('Ok? [y/N]: ') !== 'y') {
+        console.log('Not signing the transactions.');
+        return;
+    }
+
+    const partialSignatures = createPartialSignatures(transactions, commitments, nonces, privateKey);
+    // never reuse the nonces, as two partial signatures with the same nonces reveal the private key
+    fs.rmSync(noncesFile);
+    const defaultFile = `${path.dirname(unsignedFile)}/${getCurrentDateString()} multisig partial signatures `
+        + `${PublicKey.derive(privateKey).toHex().substring(0, 8)}.csv`;
+    const file = (options.signaturesFile
+        ?? await prompt(`Export the partial signatures to [default: ${defaultFile}]: `)) || defaultFile;
+    exportPartialSignatures(partialSignatures, file);
+    console.log(`Partial signatures exported to ${file}, secret nonces deleted. Send the partial signatures to the `
+        + `co-signer combining them via yarn main ${Operation.MULTISIG_COMBINE}. To sign again, e.g. after the `
+        + `transactions expired, start over with yarn main ${Operation.MULTISIG_COMMIT}.`);
+}
+
+/**
+ * Interactive wizard for combining prepared multisig funding transactions with the partial signatures of the
+ * co-signers
+ * Guides user through the process of combining and verifying the partial signatures and exporting the signed
+ * transactions for broadcasting them.
+ * @param cashlinks - Map of cashlink tokens to Cashlink objects
+ * @param folder - Folder of the exported cashlinks, in which the signed transactions are exported by default
+ * @param options - Command line options, which are used instead of prompting where specified
+ */
+async function wizardCombineMultisigFunding(
+    cashlinks: Map<string, Cashlink>,
+    folder: string,
+    options: CliOptions,
+): Promise<void> {
+    const unsignedFile = options.unsignedFile ?? await prompt('Unsigned transactions file: ');
+    const unsignedTransactions = importSignedTransactions(path.resolve(process.cwd(), unsignedFile));
+    const unknownTokens = [...unsignedTransactions.keys()].filter((token) => !cashlinks.has(token));
+    if (unknownTokens.length) throw new Error(`Transactions for unknown Cashlinks: ${unknownTokens.join(', ')}`);
+    const commitments = importMultisigCommitments((options.commitmentsFile
+        ?? await prompt('Commitments files of all signing co-signers (comma separated): '))
+        .split(',').map((file) => path.resolve(process.cwd(), file.trim())));
+    const partialSignatures = importPartialSignatures((options.signaturesFile
+        ?? await prompt('Partial signatures files of all signing co-signers (comma separated): '))
+        .split(',').map((file) => path.resolve(process.cwd(), file.trim())));
+    const publicKeys = parsePublicKeys(options.publicKeys
+        ?? await prompt('Public keys of all co-signers of the multisig account (comma separated hex): '));
+
+    const transactions = combinePartialSignatures(unsignedTransactions, commitments, partialSignatures, publicKeys);
+    const unsignedTokens = [...unsignedTransactions.keys()].filter((token) => !transactions.has(token));
+    console.log(`Combined the signatures of ${transactions.size} funding transactions.`
+        + (unsignedTokens.length ? ` No partial signatures for: ${unsignedTokens.join(', ')}` : ''));
+    if (!transactions.size) return;
+
+    const defaultFile = `${folder || '.'}/${getCurrentDateString()} signed funding transactions.csv`
+        .replace(__dirname, '.');
+    const file = (options.signedFile
+        ?? await prompt(`Export the signed transactions to [default: ${defaultFile}]: `)) || defaultFile;
+    exportSignedTransactions(transactions, file);
+    console.log(`Signed funding transactions exported to ${file}. Broadcast them via: `
+        + `yarn main ${Operation.BROADCAST}`);
+}
+
+/**
+ * Interactive wizard for reporting a dry run
+ * Prints the transactions of the dry run and offers exporting the signed transactions.
+ * @param dryRun - Dry run to report
+ * @param label - Label of the transactions, e.g. "funding"
+ * @param folder - Folder of the exported cashlinks, in which the signed transactions are exported by default
+ * @param options - Command line options, which are used instead of prompting where specified
+ */
+async function wizardReportDryRun(dryRun: DryRun, label: string, folder: string, options: CliOptions): Promise<void> {
+    console.log(`\nDry run, no transactions were sent:\n${formatDryRun(dryRun, label)}`);
+    if (!dryRun.transactions.size) return;
+    const defaultFile = `${folder || '.'}/${getCurrentDateString()} ${label} dry run.csv`.replace(__dirname, '.');
+    const file = options.dryRunFile ?? (options.yes ? '' : await prompt('Export the signed transactions to a file? '
+        + 'Note that anyone with access to the file can send them while they are valid. '
+        + `[path/"none", default: ${defaultFile}]: `));
+    if (file === 'none' || (options.dryRunFile !== undefined && !file)) return;
+    exportSignedTransactions(dryRun.transactions, file || defaultFile);
+    console.log(`Signed ${label} transactions exported to ${file || defaultFile}.`);
+}
+
+/**
+ * Interactive wizard for tracking sent transactions
+ * Waits for the transactions to be confirmed or expired, prints a summary and offers rebroadcasting expired ones, up
+ * to a maximum number of rounds
+ * @param transactions - Tracked transactions
+ * @param label - Label of the transactions, e.g. "funding"
+ * @param rpcClient - RPC client for interacting with the Nimiq node
+ * @param options - Command line options, which are used instead of prompting where specified
+ * @param journal - Optional funding journal to record state changes in
+ */
+async function wizardTrackTransactions(
+    transactions: TrackedTransactions,
+    label: string,
+    rpcClient: RpcClient,
+    options: CliOptions,
+    journal?: FundingJournal,
+): Promise<void> {
+    if (!transactions.size) return;
+    for (let round = 0; ; round++) {
+        // expired transactions are rebuilt and resent while tracking, too
+        const pending = countTransactions(transactions, TransactionState.PENDING)
+            + countTransactions(transactions, TransactionState.EXPIRED);
+        if (pending) {
+            console.log(`\nWaiting for ${pending} ${label} transactions to be confirmed. This might take a while.`);
+            await trackTransactions(transactions, rpcClient, journal);
+        }
+        console.log(formatTransactionSummary(transactions, label));
+
+        const expired = countTransactions(transactions, TransactionState.EXPIRED);
+        if (expired && round >= MAX_REBROADCAST_ROUNDS) {
+            console.log(`Stopped rebroadcasting after ${MAX_REBROADCAST_ROUNDS} rounds, ${expired} ${label} `
+                + 'transactions remain expired.');
+            return;
+        }
+        if (!expired || (!options.yes
+            && await prompt(`Rebroadcast ${expired} expired ${label} transactions? [y/N]: `) !== 'y')) return;
+        const rebroadcast = await rebroadcastExpiredTransactions(transactions, rpcClient, journal);
+        console.log(`${rebroadcast} ${label} transactions rebroadcast.`);
+        if (!rebroadcast) return; // e.g. for transactions signed offline
+    }
+}
+
 /**
  * Interactive wizard for creating cashlink statistics
  * Guides user through the process of generating usage statistics
  * @param cashlinks - Map of cashlink tokens to Cashlink objects
  * @param folder - Output folder for generated statistics
  * @param rpcClient - RPC client for interacting with the Nimiq node
+ * @param options - Command line options, which are used instead of prompting where specified
  */
 async function wizardCreateStatistics(
     cashlinks: Map<string, Cashlink>,
     folder: string,
     rpcClient: RpcClient,
+    options: CliOptions,
 ): Promise<void> {
-    const reclaimUserFriendlyAddress = await prompt('Address cashlinks have been reclaimed to [default: none]: ');
+    const defaultReclaimAddress = loadCampaignAccount(folder)?.addresses[0] || '';
+    const reclaimUserFriendlyAddress = options.reclaimAddress
+        ?? (await prompt('Address cashlinks have been reclaimed to [default: '
+            + `${defaultReclaimAddress ? `campaign account ${defaultReclaimAddress}` : 'none'}]: `)
+            || defaultReclaimAddress);
     const reclaimAddress = reclaimUserFriendlyAddress
         ? Address.fromUserFriendlyAddress(reclaimUserFriendlyAddress)
         : null;
-    const timeZone = await prompt('Timezone to use for claims-per-day statistic [default: "UTC", '
-        + `your timezone: "${Intl.DateTimeFormat().resolvedOptions().timeZone}"]: `) || 'UTC';
+    const timeZone = (options.timeZone ?? await prompt('Timezone to use for claims-per-day statistic [default: "UTC", '
+        + `your timezone: "${Intl.DateTimeFormat().resolvedOptions().timeZone}"]: `)) || 'UTC';
 
     console.log('\nGenerating Cashlink statistics');
     const statistics = await createStatistics(cashlinks, reclaimAddress, timeZone, rpcClient);
@@ -339,19 +1091,58 @@ async function wizardCreateStatistics(
     console.log(`\nStatistics:\n${statistics}`);
 
     const file = `${folder || '.'}/${getCurrentDateString()} statistics.txt`.replace(__dirname, '.');
-    if (await prompt(`Do you want to export the statistics to ${file}? [Y/n]: `) === 'n') return;
+    if (!options.yes && await prompt(`Do you want to export the statistics to ${file}? [Y/n]: `) === 'n') return;
     fs.writeFileSync(file, statistics);
     console.log(`Statistics exported to ${file}.`);
 }
 
+/**
+ * Interactive wizard for reporting the status of cashlinks
+ * Guides user through the process of checking which cashlinks still hold funds, without claiming them
+ * @param cashlinks - Map of cashlink tokens to Cashlink objects
+ * @param folder - Folder of the exported cashlinks, in which the funding journal is kept
+ * @param rpcClient - RPC client for interacting with the Nimiq node
+ * @param options - Command line options, which are used instead of prompting where specified
+ */
+async function wizardReportStatus(
+    cashlinks: Map<string, Cashlink>,
+    folder: string,
+    rpcClient: RpcClient,
+    options: CliOptions,
+): Promise<void> {
+    const journal = new FundingJournal(folder);
+    if (!journal.size) {
+        console.log('No funding journal found. Empty Cashlinks are told apart via their transaction histories, which '
+            + 'requires index_history on the node, or else reported as unknown.');
+    }
+
+    console.log('\nChecking the balances of the Cashlinks');
+    const statuses = await getCashlinkStatuses(cashlinks, journal, rpcClient);
+    console.log(`\nStatus:\n${formatStatusSummary(statuses)}`);
+
+    const defaultFile = `${folder || '.'}/${getCurrentDateString()} status.csv`.replace(__dirname, '.');
+    const file = options.statusFile ?? (options.yes ? '' : await prompt('Export the status of each Cashlink to '
+        + `[path/"none", default: ${defaultFile}]: `));
+    if (file === 'none' || (options.statusFile !== undefined && !file)) return;
+    exportCashlinkStatus(cashlinks, statuses, file || defaultFile);
+    console.log(`Cashlink status exported to ${file || defaultFile}.`);
+}
+
 /**
  * Interactive wizard for importing cashlinks
  * Guides user through the process of loading existing cashlinks from a file
- * @returns Imported cashlinks, short links, image files, and folder path
+ * @param fileOption - Optional csv file specified via command line, in which case no prompt is shown
+ * @param canCreate - Whether new cashlinks can be created instead, if no operation was specified via command line
+ * @returns Imported cashlinks, short links, image files, and folder path, or null to create new cashlinks instead
  */
-async function wizardImportCashlinks(): Promise<WizardResult & { imageFiles: ImageFiles, folder: string } | null> {
-    let importedFile = await prompt('Do you want to create new cashlinks or load existing cashlinks?\n'
-        + 'If you want to load cashlinks, specify the path to the exported csv file: ');
+async function wizardImportCashlinks(
+    fileOption: string | undefined,
+    canCreate: boolean,
+): Promise<WizardResult & { imageFiles: ImageFiles, folder: string } | null> {
+    let importedFile = fileOption ?? await prompt(canCreate
+        ? 'Do you want to create new cashlinks or load existing cashlinks?\n'
+            + 'If you want to load cashlinks, specify the path to the exported csv file: '
+        : 'Path to the exported csv file of the cashlinks: ');
     if (!importedFile) return null;
 
     try {
@@ -378,7 +1169,8 @@ async function wizardImportCashlinks(): Promise<WizardResult & { imageFiles: Ima
         return { ...result, folder };
     } catch (error) {
         console.error('\nImport error:', error instanceof Error ? error.message : String(error));
-        if (await prompt('\nWould you like to create new cashlinks instead? [y/N]: ') === 'y') return null;
+        if (fileOption === undefined && canCreate
+            && await prompt('\nWould you like to create new cashlinks instead? [y/N]: ') === 'y') return null;
         throw error;
     }
 }
@@ -387,39 +1179,131 @@ async function wizardImportCashlinks(): Promise<WizardResult & { imageFiles: Ima
  * Interactive wizard for claiming unclaimed cashlinks
  * Guides user through the process of redeeming unclaimed cashlinks to a specified address
  * @param cashlinks - Map of cashlink tokens to Cashlink objects
+ * @param folder - Folder of the exported cashlinks, in which the campaign account file is kept
  * @param rpcClient - RPC client for interacting with the Nimiq node
+ * @param options - Command line options, which are used instead of prompting where specified
  */
 async function wizardClaimCashlinks(
     cashlinks: Map<string, Cashlink>,
+    folder: string,
     rpcClient: RpcClient,
+    options: CliOptions,
 ): Promise<void> {
-    const recipientUserFriendlyAddress = await prompt('Redeem unclaimed Cashlinks to address: ');
+    // default to the campaign account the cashlinks were funded from
+    const defaultRecipient = loadCampaignAccount(folder)?.addresses[0] || '';
+    const recipientUserFriendlyAddress = (options.recipient ?? await prompt('Redeem unclaimed Cashlinks to address'
+        + (defaultRecipient ? ` [default: campaign account ${defaultRecipient}]` : '') + ': ')) || defaultRecipient;
     const recipientAddress = Address.fromUserFriendlyAddress(recipientUserFriendlyAddress);
 
-    if (await prompt(`Redeeming unclaimed Cashlinks to ${recipientUserFriendlyAddress}, ok? [y/N]: `) !== 'y') {
+    const filter = await promptClaimFilter(options);
+    let matchingCashlinks = cashlinks;
+    if (isClaimFilterActive(filter)) {
+        console.log('\nSelecting the Cashlinks to claim');
+        matchingCashlinks = await filterCashlinks(cashlinks, filter, rpcClient);
+    }
+
+    const fee = await promptClaimingFee(options);
+
+    console.log('\nChecking the balances of the Cashlinks to claim');
+    const balances = await getCashlinkBalances(matchingCashlinks, rpcClient);
+    console.log(formatClaimPreview(matchingCashlinks, balances, cashlinks.size, fee));
+
+    if (options.dryRun) {
+        console.log('Building and signing claiming transactions without sending them');
+        const dryRun = createDryRun();
+        await claimCashlinks(matchingCashlinks, recipientAddress, fee, rpcClient, dryRun, balances);
+        for (const token of cashlinks.keys()) {
+            if (!matchingCashlinks.has(token)) dryRun.skipped.set(token, 'filtered');
+        }
+        await wizardReportDryRun(dryRun, 'claiming', folder, options);
+        return;
+    }
+    const unclaimedCashlinks = new Map([...matchingCashlinks].filter(([token]) => balances.get(token)! > 0));
+    if (![...unclaimedCashlinks.keys()].some((token) => balances.get(token)! > fee)) {
+        console.log('No unclaimed Cashlinks to redeem.');
+        return;
+    }
+    if (!options.yes
+        && await prompt(`Redeeming unclaimed Cashlinks to ${recipientUserFriendlyAddress}, ok? [y/N]: `) !== 'y') {
         console.log('Not redeeming Cashlinks.');
         return;
     }
 
     console.log('\nRedeeming unclaimed Cashlinks');
-    await claimCashlinks(cashlinks, recipientAddress, rpcClient);
+    const { transactions, outcomes } = await claimCashlinks(unclaimedCashlinks, recipientAddress, fee, rpcClient,
+        undefined, balances);
+    await wizardTrackTransactions(transactions, 'claiming', rpcClient, options);
+    // claiming transactions can still fail after sending them, e.g. if a holder redeemed their cashlink meanwhile
+    await classifyFailedClaims(transactions, outcomes, rpcClient);
+    console.log(`\nClaim outcomes:\n${formatClaimReport(outcomes)}`);
     console.log('Unclaimed Cashlinks redeemed.');
 }
 
+/**
+ * Prompts for the criteria selecting the cashlinks to claim
+ * The criteria are only prompted for if none were specified via options and confirmations are not answered
+ * automatically, such that unattended claims keep claiming all cashlinks.
+ * @param options - Command line options, which are used instead of prompting where specified
+ * @returns Claim filter
+ * @throws If a criterion is invalid
+ */
+async function promptClaimFilter(options: CliOptions): Promise<ClaimFilter> {
+    const { tokens, minAge, minValue, maxValue, messageFilter } = options;
+    const isInteractive = [tokens, minAge, minValue, maxValue, messageFilter].every((option) => option === undefined)
+        && !options.yes
+        && await prompt('Only claim part of the Cashlinks, filtered by tokens, age, value or message? [y/N]: ') === 'y';
+    const promptCriterion = async (option: string | undefined, question: string) =>
+        (option ?? (isInteractive ? await prompt(question) : '')).trim() || null;
+    const parseCriterion = (criterion: string | null, name: string) => {
+        if (criterion === null) return null;
+        const number = parseFloat(criterion);
+        if (Number.isNaN(number) || number < 0) throw new Error(`Invalid ${name} ${criterion}`);
+        return number;
+    };
+
+    const tokensFile = await promptCriterion(tokens,
+        'Path to the file with the tokens or short links of the Cashlinks to claim [default: all]: ');
+    const minAgeDays = parseCriterion(
+        await promptCriterion(minAge, 'Minimum days since funding [default: any]: '), 'minimum age');
+    const minValueNim = parseCriterion(
+        await promptCriterion(minValue, 'Minimum Cashlink value in NIM [default: any]: '), 'minimum value');
+    const maxValueNim = parseCriterion(
+        await promptCriterion(maxValue, 'Maximum Cashlink value in NIM [default: any]: '), 'maximum value');
+    const message = await promptCriterion(messageFilter, 'Text the Cashlink message contains [default: any]: ');
+    return {
+        tokens: tokensFile ? new Set(importTokens(path.resolve(process.cwd(), tokensFile)).tokens) : null,
+        minAge: minAgeDays,
+        minValue: minValueNim !== null ? Math.round(minValueNim * 1e5) : null,
+        maxValue: maxValueNim !== null ? Math.round(maxValueNim * 1e5) : null,
+        message,
+    };
+}
+
 /**
  * Interactive wizard for changing cashlink messages
  * Guides user through the process of modifying the message of existing cashlinks
  * @param cashlinks - Map of cashlink tokens to Cashlink objects
+ * @param options - Command line options, which are used instead of prompting where specified
  * @returns Boolean indicating if the message was changed
  */
-async function wizardChangeMessage(cashlinks: Map<string, Cashlink>): Promise<boolean> {
+async function wizardChangeMessage(cashlinks: Map<string, Cashlink>, options: CliOptions): Promise<boolean> {
     const oldCashlinkMessage = cashlinks.values().next().value?.message || '';
     const newCashlinkMessage = (
-        await prompt(`New Cashlink message ["none"/message, old message: "${oldCashlinkMessage}"]: `)
+        (options.message
+            ?? await prompt(`New Cashlink message ["none"/message, old message: "${oldCashlinkMessage}"]: `))
         || oldCashlinkMessage
     ).replace(/^none$/, '');
 
-    if (oldCashlinkMessage === newCashlinkMessage) {
+    const firstCashlink = cashlinks.values().next().value;
+    const sampleCashlink = firstCashlink && new Cashlink(
+        firstCashlink.baseUrl,
+        KeyPair.generate(),
+        firstCashlink.value,
+        newCashlinkMessage,
+        firstCashlink.theme,
+    );
+    if (oldCashlinkMessage === newCashlinkMessage
+        || (sampleCashlink && !await confirmCashlinkPreview(sampleCashlink, options))) {
         console.log('Keeping the old Cashlink message.')
         return false;
     }
@@ -436,11 +1320,12 @@ async function wizardChangeMessage(cashlinks: Map<string, Cashlink>): Promise<bo
  * Interactive wizard for changing cashlink themes
  * Guides user through the process of modifying the theme of existing cashlinks
  * @param cashlinks - Map of cashlink tokens to Cashlink objects
+ * @param options - Command line options, which are used instead of prompting where specified
  * @returns Boolean indicating if the theme was changed
  */
-async function wizardChangeTheme(cashlinks: Map<string, Cashlink>): Promise<boolean> {
+async function wizardChangeTheme(cashlinks: Map<string, Cashlink>, options: CliOptions): Promise<boolean> {
     const oldCashlinkTheme = cashlinks.values().next().value?.theme || CashlinkTheme.UNSPECIFIED;
-    const newCashlinkTheme = await promptCashlinkTheme(oldCashlinkTheme);
+    const newCashlinkTheme = await promptCashlinkTheme(oldCashlinkTheme, options.theme);
 
     if (oldCashlinkTheme === newCashlinkTheme) {
         console.log('Keeping the old Cashlink theme.')
@@ -455,54 +1340,152 @@ async function wizardChangeTheme(cashlinks: Map<string, Cashlink>): Promise<bool
     return true;
 }
 
+/**
+ * Interactive wizard for changing the base url of cashlinks
+ * Guides user through the process of moving existing cashlinks to a different Hub, keeping all other properties
+ * @param cashlinks - Map of cashlink tokens to Cashlink objects
+ * @param shortLinks - Optional map of short links
+ * @param options - Command line options, which are used instead of prompting where specified
+ * @returns Boolean indicating if the base url was changed
+ */
+async function wizardRebaseCashlinks(
+    cashlinks: Map<string, Cashlink>,
+    shortLinks: Map<string, string> | null,
+    options: CliOptions,
+): Promise<boolean> {
+    const { cashlinkBaseUrl: defaultCashlinkBaseUrl } = getConfig();
+    const oldCashlinkBaseUrls = new Set([...cashlinks.values()].map((cashlink) => cashlink.baseUrl));
+    const newCashlinkBaseUrl = (options.baseUrl
+        ?? await prompt(`New Cashlink base url [default: "${defaultCashlinkBaseUrl}", `
+            + `old base url: "${[...oldCashlinkBaseUrls].join('", "')}"]: `))
+        || defaultCashlinkBaseUrl;
+
+    if (oldCashlinkBaseUrls.size === 1 && oldCashlinkBaseUrls.has(newCashlinkBaseUrl)) {
+        console.log('Keeping the old Cashlink base url.');
+        return false;
+    }
+
+    console.log('\nChanging Cashlink base url');
+    for (const cashlink of cashlinks.values()) {
+        cashlink.baseUrl = newCashlinkBaseUrl;
+    }
+    console.log('Cashlink base url changed.\n');
+    if (!shortLinks) {
+        console.log('Note that existing images contain the full Cashlinks with the old base url. Recreate them via '
+            + `${Operation.CREATE_IMAGES}.\n`);
+    }
+    return true;
+}
+
+/**
+ * Interactive wizard for inspecting cashlinks
+ * Guides user through the process of validating cashlink URLs and printing their content
+ * @param options - Command line options, which are used instead of prompting where specified
+ * @returns Boolean indicating if all cashlinks are valid
+ */
+async function wizardInspectCashlinks(options: CliOptions): Promise<boolean> {
+    const urls = options.urls?.length ? options.urls : [];
+    if (!urls.length) {
+        console.log('Enter the Cashlink urls to inspect, one per line. Finish with an empty line.');
+        let url: string;
+        while ((url = (await prompt('Cashlink url: ')).trim())) {
+            urls.push(url);
+        }
+    }
+
+    let valid = 0;
+    for (const url of urls) {
+        const inspection = inspectCashlink(url);
+        if (inspection.cashlink) valid++;
+        console.log(formatInspection(inspection));
+    }
+
+    console.log(`${valid} of ${urls.length} Cashlinks are valid.`);
+    return valid === urls.length;
+}
+
 /**
  * Main application entry point
  * Handles the complete workflow of cashlink operations
  * including creation, modification, funding, and claiming
  */
 async function main() {
+    const { operation: cliOperation, options } = parseCliArguments(process.argv.slice(2));
+    if (cliOperation === Operation.INSPECT) {
+        // inspection works on urls only and does not require any configuration or node
+        process.exit(await wizardInspectCashlinks(options) ? 0 : 1);
+    }
+    if (cliOperation === Operation.MULTISIG_COMMIT || cliOperation === Operation.MULTISIG_SIGN) {
+        // co-signers only need the unsigned transactions, not the Cashlinks or a node
+        await (cliOperation === Operation.MULTISIG_COMMIT
+            ? wizardCommitMultisigFunding(options)
+            : wizardSignMultisigFunding(options));
+        process.exit(0);
+    }
+
     const config = getConfig();
-    const client = new RpcClient(config.nodeIp, config.nodePort);
+    const client = new RpcClient(config.nodeIp, config.nodePort, config.rpcConcurrency);
     console.log('Welcome to the cashlink generator!\n');
 
     // Initialize variables
     let cashlinks: Map<string, Cashlink>;
     let shortLinks: Map<string, string> | null;
+    let saltIds: Map<string, string>;
     let imageFiles: ImageFiles = new Map();
     let folder: string;
     let operations: Operation[];
     let shouldExport = false;
 
     // Handle import or create new cashlinks
-    const importResult = await wizardImportCashlinks();
+    const importResult = cliOperation !== Operation.CREATE && cliOperation !== Operation.RECOVER
+        ? await wizardImportCashlinks(options.file, cliOperation === null)
+        : null;
+    if (!importResult && cliOperation !== null && cliOperation !== Operation.CREATE
+        && cliOperation !== Operation.RECOVER) {
+        // don't fall back to creating and funding new cashlinks for an operation on existing cashlinks
+        throw new Error(`--file is required for ${cliOperation}`);
+    }
     if (importResult) {
-        ({ cashlinks, shortLinks, imageFiles, folder } = importResult);
-        const operation = await prompt(`What do you want to do? [${Object.values(Operation).join('/')}]: `);
-        if (!Object.values(Operation).some((o) => o === operation)) {
+        ({ cashlinks, shortLinks, saltIds, imageFiles, folder } = importResult);
+        const importOperations = Object.values(Operation)
+            .filter((o) => o !== Operation.CREATE && o !== Operation.RECOVER && o !== Operation.INSPECT
+                && o !== Operation.MULTISIG_COMMIT && o !== Operation.MULTISIG_SIGN);
+        const operation = cliOperation
+            ?? await prompt(`What do you want to do? [${importOperations.join('/')}]: `);
+        if (!importOperations.some((o) => o === operation)) {
             throw new Error(`Unsupported operation ${operation}`);
         }
         operations = [operation as Operation];
+    } else if (cliOperation === Operation.RECOVER) {
+        ({ cashlinks, shortLinks, saltIds } = await wizardRecoverCashlinks(client, options));
+        folder = createFolder();
+        operations = [Operation.RECOVER];
+        shouldExport = true;
     } else {
-        ({ cashlinks, shortLinks } = await wizardCreateCashlinks());
+        ({ cashlinks, shortLinks, saltIds } = await wizardCreateCashlinks(options));
         folder = createFolder();
-        operations = [Operation.CREATE_IMAGES, Operation.FUND];
+        operations = [Operation.CREATE_IMAGES, ...(options.skipFunding ? [] : [Operation.FUND])];
         shouldExport = true;
     }
 
     // Process operations
     if (operations.includes(Operation.CREATE_IMAGES)) {
         const oldImageFiles = imageFiles;
-        imageFiles = await wizardCreateImages(cashlinks, shortLinks, folder);
+        imageFiles = await wizardCreateImages(cashlinks, shortLinks, folder, options);
         shouldExport = shouldExport || !oldImageFiles.size
             || oldImageFiles.values().next().value !== imageFiles.values().next().value;
     }
 
     if (operations.includes(Operation.CHANGE_MESSAGE)) {
-        shouldExport = shouldExport || await wizardChangeMessage(cashlinks);
+        shouldExport = shouldExport || await wizardChangeMessage(cashlinks, options);
     }
 
     if (operations.includes(Operation.CHANGE_THEME)) {
-        shouldExport = shouldExport || await wizardChangeTheme(cashlinks);
+        shouldExport = shouldExport || await wizardChangeTheme(cashlinks, options);
+    }
+
+    if (operations.includes(Operation.REBASE)) {
+        shouldExport = shouldExport || await wizardRebaseCashlinks(cashlinks, shortLinks, options);
     }
 
     if (shouldExport) {
@@ -510,30 +1493,44 @@ async function main() {
         const file = `${folder || '.'}/cashlinks`
             + (importResult ? ` (update ${getCurrentDateString()} ${operations.join(' ')})` : '')
             + '.csv';
-        exportCashlinks(cashlinks, shortLinks, imageFiles, file);
+        exportCashlinks(cashlinks, shortLinks, imageFiles, saltIds, file);
         console.log(`Cashlinks exported to ${file.replace(__dirname, '.')}.\n`);
     }
 
     if (operations.includes(Operation.FUND)) {
         // fund after export, to make sure the cashlinks were saved, if needed
-        await wizardFundCashlinks(cashlinks, client);
+        await wizardFundCashlinks(cashlinks, saltIds, folder, client, options);
+    }
+
+    if (operations.includes(Operation.SIGN)) {
+        await wizardSignFundingTransactions(cashlinks, folder, options);
+    }
+
+    if (operations.includes(Operation.BROADCAST)) {
+        await wizardBroadcastFundingTransactions(cashlinks, folder, client, options);
+    }
+
+    if (operations.includes(Operation.MULTISIG_PREPARE)) {
+        await wizardPrepareMultisigFunding(cashlinks, folder, client, options);
+    }
+
+    if (operations.includes(Operation.MULTISIG_COMBINE)) {
+        await wizardCombineMultisigFunding(cashlinks, folder, options);
     }
 
     if (operations.includes(Operation.STATISTICS)) {
-        await wizardCreateStatistics(cashlinks, folder, client);
+        await wizardCreateStatistics(cashlinks, folder, client, options);
+    }
+
+    if (operations.includes(Operation.STATUS)) {
+        await wizardReportStatus(cashlinks, folder, client, options);
     }
 
     if (operations.includes(Operation.CLAIM)) {
-        await wizardClaimCashlinks(cashlinks, client);
+        await wizardClaimCashlinks(cashlinks, folder, client, options);
     }
 
     console.log('\nAll operations finished :)');
-    if (operations.includes(Operation.FUND) || operations.includes(Operation.CLAIM)) {
-        console.log(
-            'Transactions might still be pending in your local node and waiting to be relayed to other network nodes.\n'
-            + 'Make sure to check your wallet balance and keep your node running if needed.',
-        );
-    }
     process.exit(0);
 }
 
@@ -0,0 +1,336 @@
+/**
+ * Nimiq Cashlink Multisig Signatures
+ * Signs unsigned funding transactions of a multisig account with MuSig2 and combines the partial signatures of the
+ * co-signers.
+ *
+ * Features:
+ * - Create secret nonces and their public commitments per cashlink and co-signer
+ * - Create partial signatures from the commitments of all signing co-signers and the own nonces
+ * - Combine the partial signatures to multisig signature proofs and verify them against the multisig account
+ * - Export and import commitments, nonces and partial signatures, for exchanging them between the co-signers
+ *
+ * Signing takes two rounds: each co-signer first shares the commitments of their nonces, then their partial
+ * signatures, which depend on the commitments of all co-signers. A nonce must never be used for more than one partial
+ * signature, as two partial signatures with the same nonce reveal the private key. The MuSig2 primitives and the key
+ * aggregation of the multisig accounts are those of @nimiq/core.
+ */
+
+import fs from 'fs';
+import {
+    Address,
+    Commitment,
+    CommitmentPair,
+    PartialSignature,
+    PrivateKey,
+    PublicKey,
+    SignatureProof,
+    Transaction,
+} from '@nimiq/core';
+
+const NONCE_COUNT = 2; // nonces per co-signer and transaction, as required by MuSig2
+const PROTOCOL_VERSION = 0; // accepts the signature proofs of all protocol versions, for verifying offline
+
+/**
+ * Public commitments of a co-signer to their secret nonces for a transaction
+ */
+export interface MultisigCommitment {
+    publicKey: PublicKey;
+    commitments: Commitment[];
+}
+
+/**
+ * Secret nonces of a co-signer for a transaction, with their commitments
+ */
+export interface MultisigNonces {
+    publicKey: PublicKey;
+    commitmentPairs: CommitmentPair[];
+}
+
+/**
+ * Partial signature of a co-signer for a transaction
+ */
+export interface MultisigPartialSignature {
+    publicKey: PublicKey;
+    partialSignature: PartialSignature;
+}
+
+/**
+ * Parses a comma separated list of hex encoded public keys
+ * @param publicKeys - Comma separated public keys
+ * @returns Parsed public keys
+ * @throws If a public key is invalid
+ */
+export function parsePublicKeys(publicKeys: string): PublicKey[] {
+    return publicKeys.split(',').map((publicKey) => publicKey.trim()).filter((publicKey) => !!publicKey)
+        .map((publicKey) => PublicKey.fromHex(publicKey));
+}
+
+/**
+ * Creates secret nonces and their commitments for signing transactions
+ * @param tokens - Tokens of the cashlinks to sign the transactions of
+ * @param publicKey - Public key of the co-signer
+ * @returns Commitments to share with the other co-signers and secret nonces to keep, by cashlink token
+ */
+export function createMultisigCommitments(tokens: string[], publicKey: PublicKey): {
+    commitments: Map</* token */ string, MultisigCommitment>,
+    nonces: Map</* token */ string, MultisigNonces>,
+} {
+    const commitments = new Map</* token */ string, MultisigCommitment>();
+    const nonces = new Map</* token */ string, MultisigNonces>();
+    for (const token of tokens) {
+        const commitmentPairs = Array.from({ length: NONCE_COUNT }, () => CommitmentPair.generate());
+        nonces.set(token, { publicKey, commitmentPairs });
+        commitments.set(token, { publicKey, commitments: commitmentPairs.map(({ commitment }) => commitment) });
+    }
+    return { commitments, nonces };
+}
+
+/**
+ * Checks that the commitments of a transaction are from distinct co-signers and complete
+ * @param token - Token of the cashlink of the transaction
+ * @param commitments - Commitments of the signing co-signers
+ * @throws If the commitments are malformed
+ */
+function checkCommitments(token: string, commitments: MultisigCommitment[]): void {
+    const publicKeys = new Set(commitments.map(({ publicKey }) => publicKey.toHex()));
+    if (publicKeys.size !== commitments.length) throw new Error(`Duplicate co-signer for Cashlink ${token}`);
+    if (commitments.some((commitment) => commitment.commitments.length !== NONCE_COUNT)) {
+        throw new Error(`Expected ${NONCE_COUNT} commitments per co-signer for Cashlink ${token}`);
+    }
+}
+
+/**
+ * Creates the partial signatures of a co-signer
+ * @param transactions - Unsigned transactions by cashlink token
+ * @param commitments - Commitments of all signing co-signers, including the own, by cashlink token
+ * @param nonces - Own secret nonces by cashlink token
+ * @param privateKey - Private key of the co-signer
+ * @returns Partial signatures by cashlink token
+ * @throws If commitments or nonces are missing for a transaction, or the own commitments do not match the nonces
+ */
+export function createPartialSignatures(
+    transactions: Map</* token */ string, Transaction>,
+    commitments: Map</* token */ string, MultisigCommitment[]>,
+    nonces: Map</* token */ string, MultisigNonces>,
+    privateKey: PrivateKey,
+): Map</* token */ string, MultisigPartialSignature> {
+    const publicKey = PublicKey.derive(privateKey);
+    const partialSignatures = new Map</* token */ string, MultisigPartialSignature>();
+    for (const [token, transaction] of transactions) {
+        const tokenCommitments = commitments.get(token);
+        const tokenNonces = nonces.get(token);
+        if (!tokenCommitments || !tokenNonces) throw new Error(`Missing commitments or nonces for Cashlink ${token}`);
+        checkCommitments(token, tokenCommitments);
+        if (!tokenNonces.publicKey.equals(publicKey)) {
+            throw new Error(`The nonces for Cashlink ${token} belong to a different co-signer`);
+        }
+        const ownCommitment = tokenCommitments.find((commitment) => commitment.publicKey.equals(publicKey));
+        if (!ownCommitment || ownCommitment.commitments.some((commitment, index) =>
+            !commitment.equals(tokenNonces.commitmentPairs[index].commitment))) {
+            throw new Error(`The own commitment for Cashlink ${token} is missing or does not match the nonces`);
+        }
+
+        const otherCommitments = tokenCommitments.filter((commitment) => commitment !== ownCommitment);
+        partialSignatures.set(token, {
+            publicKey,
+            partialSignature: PartialSignature.create(privateKey, publicKey, tokenNonces.commitmentPairs,
+                otherCommitments.map((commitment) => commitment.publicKey),
+                otherCommitments.map((commitment) => commitment.commitments), transaction.serializeContent()),
+        });
+    }
+    return partialSignatures;
+}
+
+/**
+ * Combines the partial signatures of the co-signers to signed multisig transactions
+ * @param transactions - Unsigned transactions by cashlink token
+ * @param commitments - Commitments of all signing co-signers by cashlink token
+ * @param partialSignatures - Partial signatures of all signing co-signers by cashlink token
+ * @param publicKeys - Public keys of all co-signers of the multisig account
+ * @returns Signed transactions by cashlink token, for the transactions for which partial signatures were given
+ * @throws If partial signatures are given for an unknown cashlink, do not match the commitments or are invalid, or
+ * the public keys do not belong to the multisig account
+ */
+export function combinePartialSignatures(
+    transactions: Map</* token */ string, Transaction>,
+    commitments: Map</* token */ string, MultisigCommitment[]>,
+    partialSignatures: Map</* token */ string, MultisigPartialSignature[]>,
+    publicKeys: PublicKey[],
+): Map</* token */ string, Transaction> {
+    const signedTransactions = new Map</* token */ string, Transaction>();
+    for (const [token, tokenPartialSignatures] of partialSignatures) {
+        const unsignedTransaction = transactions.get(token);
+        if (!unsignedTransaction) throw new Error(`Partial signatures for unknown Cashlink ${token}`);
+        const tokenCommitments = commitments.get(token) || [];
+        checkCommitments(token, tokenCommitments);
+        const signers = tokenCommitments.map(({ publicKey }) => publicKey.toHex()).sort();
+        if (signers.join() !== tokenPartialSignatures.map(({ publicKey }) => publicKey.toHex()).sort().join()) {
+            throw new Error(`The partial signatures for Cashlink ${token} are not from the co-signers which `
+                + 'committed to sign it');
+        }
+        const unknownSigner = signers.find((signer) => !publicKeys.some((publicKey) => publicKey.toHex() === signer));
+        if (unknownSigner) throw new Error(`Co-signer ${unknownSigner} is not listed in the public keys`);
+        const transaction = Transaction.fromAny(unsignedTransaction.toHex());
+        if (!Address.fromPublicKeys(publicKeys, signers.length).equals(transaction.sender)) {
+            throw new Error(`The public keys with ${signers.length} required signers do not belong to the multisig `
+                + `account ${transaction.sender.toUserFriendlyAddress()}`);
+        }
+
+        const signerKeys = tokenCommitments.map(({ publicKey }) => publicKey);
+        const aggregatedCommitment = Commitment.sumMuSig2(signerKeys,
+            tokenCommitments.map((commitment) => commitment.commitments), transaction.serializeContent());
+        const signature = PartialSignature.sum(tokenPartialSignatures
+            .map(({ partialSignature }) => partialSignature)).toSignature(aggregatedCommitment);
+        transaction.proof = SignatureProof.multiSig(PublicKey.sum(signerKeys),
+            PublicKey.combinations(publicKeys, signers.length), signature).serialize();
+        try {
+            transaction.verify(PROTOCOL_VERSION);
+        } catch (error) {
+            throw new Error(`Invalid signature for Cashlink ${token}, e.g. because a co-signer signed with other `
+                + `nonces than committed to: ${error instanceof Error ? error.message : String(error)}`);
+        }
+        signedTransactions.set(token, transaction);
+    }
+    return signedTransactions;
+}
+
+/**
+ * Imports the lines of a multisig signing file
+ * @param file - Path of the file
+ * @param label - Label of the file in error messages
+ * @param fieldCount - Number of comma separated fields per line, including the token and public key
+ * @param parseFields - Parses the fields following the token and public key
+ * @returns Token, public key and parsed fields of each line
+ * @throws If the file is malformed
+ */
+function importSigningFile<T>(
+    file: string,
+    label: string,
+    fieldCount: number,
+    parseFields: (fields: string[]) => T,
+): Array<{ token: string, publicKey: PublicKey, value: T }> {
+    const lines = fs.readFileSync(file, 'utf8').trim().split('\n').filter((line) => !!line);
+    return lines.map((line, index) => {
+        const [token, publicKey, ...fields] = line.trim().split(',');
+        try {
+            if (fields.length !== fieldCount - 2) throw new Error(`Expected ${fieldCount} fields`);
+            return { token, publicKey: PublicKey.fromHex(publicKey), value: parseFields(fields) };
+        } catch (error) {
+            throw new Error(`Malformed line ${index + 1} of ${label} ${file}: `
+                + (error instanceof Error ? error.message : String(error)));
+        }
+    });
+}
+
+/**
+ * Imports the entries of the signing files of multiple co-signers, grouped by cashlink token
+ * @param files - Paths of the files
+ * @param label - Label of the files in error messages
+ * @param fieldCount - Number of comma separated fields per line, including the token and public key
+ * @param parseFields - Parses the fields following the token and public key
+ * @param toEntry - Creates an entry from the public key and the parsed fields
+ * @returns Entries by cashlink token
+ * @throws If a file is malformed or a co-signer is listed multiple times for a cashlink
+ */
+function importSigningFiles<T, E>(
+    files: string[],
+    label: string,
+    fieldCount: number,
+    parseFields: (fields: string[]) => T,
+    toEntry: (publicKey: PublicKey, value: T) => E,
+): Map</* token */ string, E[]> {
+    const entries = new Map</* token */ string, E[]>();
+    const signers = new Set</* token,public key hex */ string>();
+    for (const file of files) {
+        for (const { token, publicKey, value } of importSigningFile(file, label, fieldCount, parseFields)) {
+            const signer = `${token},${publicKey.toHex()}`;
+            if (signers.has(signer)) {
+                throw new Error(`Duplicate ${label} of ${publicKey.toHex()} for Cashlink ${token}`);
+            }
+            signers.add(signer);
+            entries.set(token, [...(entries.get(token) || []), toEntry(publicKey, value)]);
+        }
+    }
+    return entries;
+}
+
+/**
+ * Exports the commitments of a co-signer
+ * Each line has the format token,publicKeyHex,commitment1Hex,commitment2Hex.
+ * @param commitments - Commitments by cashlink token
+ * @param file - Output file path
+ */
+export function exportMultisigCommitments(
+    commitments: Map</* token */ string, MultisigCommitment>,
+    file: string,
+): void {
+    fs.writeFileSync(file, [...commitments].map(([token, { publicKey, commitments: tokenCommitments }]) =>
+        `${[token, publicKey.toHex(), ...tokenCommitments.map((commitment) => commitment.toHex())]}\n`).join(''));
+}
+
+/**
+ * Imports the commitments of the signing co-signers
+ * @param files - Paths of the commitments files, one per co-signer
+ * @returns Commitments of all co-signers by cashlink token
+ * @throws If a file is malformed or a co-signer is listed multiple times for a cashlink
+ */
+export function importMultisigCommitments(files: string[]): Map</* token */ string, MultisigCommitment[]> {
+    return importSigningFiles(files, 'commitments', 2 + NONCE_COUNT,
+        (fields) => fields.map((field) => Commitment.fromHex(field)),
+        (publicKey, commitments) => ({ publicKey, commitments }));
+}
+
+/**
+ * Exports the secret nonces of a co-signer
+ * Each line has the format token,publicKeyHex,commitmentPair1Hex,commitmentPair2Hex, of which the commitment pairs
+ * contain the secret nonces. The file is only readable by the owner.
+ * @param nonces - Secret nonces by cashlink token
+ * @param file - Output file path
+ */
+export function exportMultisigNonces(nonces: Map</* token */ string, MultisigNonces>, file: string): void {
+    fs.writeFileSync(file, [...nonces].map(([token, { publicKey, commitmentPairs }]) =>
+        `${[token, publicKey.toHex(), ...commitmentPairs.map((commitmentPair) => commitmentPair.toHex())]}\n`)
+        .join(''), { mode: 0o600 });
+}
+
+/**
+ * Imports the secret nonces of a co-signer
+ * @param file - Path of the nonces file
+ * @returns Secret nonces by cashlink token
+ * @throws If the file is malformed or lists a cashlink multiple times
+ */
+export function importMultisigNonces(file: string): Map</* token */ string, MultisigNonces> {
+    const nonces = importSigningFiles([file], 'nonces', 2 + NONCE_COUNT,
+        (fields) => fields.map((field) => CommitmentPair.fromHex(field)),
+        (publicKey, commitmentPairs) => ({ publicKey, commitmentPairs }));
+    return new Map([...nonces].map(([token, [tokenNonces, ...otherNonces]]) => {
+        if (otherNonces.length) throw new Error(`Duplicate nonces for Cashlink ${token}`);
+        return [token, tokenNonces];
+    }));
+}
+
+/**
+ * Exports the partial signatures of a co-signer
+ * Each line has the format token,publicKeyHex,partialSignatureHex.
+ * @param partialSignatures - Partial signatures by cashlink token
+ * @param file - Output file path
+ */
+export function exportPartialSignatures(
+    partialSignatures: Map</* token */ string, MultisigPartialSignature>,
+    file: string,
+): void {
+    fs.writeFileSync(file, [...partialSignatures].map(([token, { publicKey, partialSignature }]) =>
+        `${token},${publicKey.toHex()},${partialSignature.toHex()}\n`).join(''));
+}
+
+/**
+ * Imports the partial signatures of the signing co-signers
+ * @param files - Paths of the partial signatures files, one per co-signer
+ * @returns Partial signatures of all co-signers by cashlink token
+ * @throws If a file is malformed or a co-signer is listed multiple times for a cashlink
+ */
+export function importPartialSignatures(files: string[]): Map</* token */ string, MultisigPartialSignature[]> {
+    return importSigningFiles(files, 'partial signatures', 3,
+        ([field]) => PartialSignature.fromHex(field),
+        (publicKey, partialSignature) => ({ publicKey, partialSignature }));
+}
@@ -3,15 +3,23 @@
 
 'use strict';
 let qrCodeGenerator = null;
+let qrCodeMeasurer = null;
 
 // Library interface
 class QrCode {
     static render(config, $element) {
         qrCodeGenerator(config, $element);
     }
+
+    // Returns the version and module count of the minimal QR code for the given text and error correction level, or
+    // `null` if the text is too long to be encoded.
+    static measure(text: string, ecLevel?: 'L' | 'M' | 'Q' | 'H'): { version: number, moduleCount: number } | null {
+        return qrCodeMeasurer(text, ecLevel);
+    }
 }
 // avoid that closure compiler strips these away
 QrCode['render'] = QrCode.render;
+QrCode['measure'] = QrCode.measure;
 
 /*! jquery-qrcode v0.14.0 - https://larsjung.de/jquery-qrcode/ */
 (function(vendor_qrcode) {
@@ -265,6 +273,11 @@ QrCode['render'] = QrCode.render;
 
         drawOnCanvas($element, settings);
     };
+
+    qrCodeMeasurer = function(text, ecLevel) {
+        var qr = createMinQRCode(text, ecLevel || defaults['ecLevel'], defaults['minVersion'], defaults['maxVersion']);
+        return qr ? { version: qr.version, moduleCount: qr.moduleCount } : null;
+    };
 }(function() {
     // `qrcode` is the single public function defined by the `QR Code Generator`
     //---------------------------------------------------------------------
@@ -32,6 +32,11 @@ const QR_SIZE = HEXAGON_RADIUS * .9;
 const HEADER_FONT_SIZE = HEXAGON_RADIUS / 50 * 9.5;
 const LINK_FONT_SIZE = HEXAGON_RADIUS / 50 * 5;
 const BACK_LOGO_SIZE = calculateHexHeight(HEXAGON_RADIUS) * (1 - 1 / 1.618); // golden ratio
+// Smallest size in px of a single QR code module which the coin layout accepts. At the 400 dpi of the canvas, 6 px are
+// 0.38 mm (6 / 400 inch), just above the 1/3 mm commonly given as the lower limit for scanning printed QR codes with
+// phone cameras. This is a property of the print layout, not of a specific scanner, and assumes that the pages are
+// printed at 100% scale on a printer resolving 400 dpi. Scaled down or lower resolution prints need larger modules.
+const MIN_QR_MODULE_SIZE = 6;
 
 const RENDER_COMPACT = false;
 const RENDER_OUTLINE_ONLY = true;
@@ -209,6 +214,16 @@ function drawHexagon(
     context.restore();
 }
 
+/**
+ * Checks whether a link can be rendered as a reliably scannable QR code within the coin layout
+ * @param link - URL or short link to encode in the QR code
+ * @returns Boolean indicating if the link fits the coin layout
+ */
+export function fitsCoinLayout(link: string): boolean {
+    const qr = QrCode.measure(link);
+    return !!qr && QR_SIZE / qr.moduleCount >= MIN_QR_MODULE_SIZE;
+}
+
 /**
  * Renders the front side of a coin with QR code and text
  * @param centerX - X coordinate of coin center
@@ -1,6 +1,7 @@
 import { NimiqRPCClient, type Transaction } from '@blouflash/nimiq-rpc';
-import { KeyPair, Address, TransactionBuilder } from '@nimiq/core';
+import { KeyPair, Address, TransactionBuilder, type Transaction as NimiqTransaction } from '@nimiq/core';
 import { getConfig } from './config.ts';
+import { sleep } from './utils.ts';
 
 /** Parameters for sending a transaction */
 interface BaseTransactionParams {
@@ -21,6 +22,77 @@ export interface RawTransactionParams {
     data?: Uint8Array;
 }
 
+/** Network ids of the supported networks, as used for signing transactions */
+export const NETWORK_IDS: Record<'main' | 'test', number> = {
+    main: 24,
+    test: 5,
+};
+
+const DEFAULT_CONCURRENCY = 20; // parallel requests when scanning many addresses or transactions
+const REQUEST_RETRIES = 3; // per address or transaction
+const RETRY_DELAY = 1000; // in ms, doubled with every retry
+
+/** State of a transaction created by the cashlink generator */
+export enum TransactionState {
+    PENDING = 'pending', // sent and in the mempool of the node
+    CONFIRMED = 'confirmed', // included in a block
+    DROPPED = 'dropped', // neither included nor in the mempool, but still valid and can be resent as is
+    EXPIRED = 'expired', // neither included nor in the mempool and outside its validity window, i.e. can't be included
+    REJECTED = 'rejected', // rejected by the node when sending
+}
+
+/**
+ * Checks whether an RPC error is the node's answer that a requested transaction does not exist, as opposed to a failed
+ * request. The node reports unknown transactions as "Transaction not found" errors.
+ * @param error - Error of an RPC call
+ * @returns Boolean indicating if the error reports an unknown transaction
+ */
+function isNotFoundError(error: { message: string }): boolean {
+    return /not found/i.test(error.message);
+}
+
+/**
+ * Creates a basic transaction without signing it, e.g. for signing it by the co-signers of a multisig account
+ * @param sender - Address of the sender
+ * @param params - Raw transaction parameters, except for the sender
+ * @param validityStartHeight - Block height from which on the transaction is valid
+ * @param networkId - Id of the network the transaction is valid in
+ * @returns The unsigned transaction
+ */
+export function buildTransaction(
+    sender: Address,
+    params: Omit<RawTransactionParams, 'sender'>,
+    validityStartHeight: number,
+    networkId: number,
+): NimiqTransaction {
+    return TransactionBuilder.newBasicWithData(
+        sender,
+        params.recipient,
+        params.data || new Uint8Array(),
+        BigInt(params.value),
+        BigInt(params.fee || 0),
+        validityStartHeight,
+        networkId,
+    );
+}
+
+/**
+ * Creates and signs a basic transaction, without requiring a connection to a node, e.g. for offline signing
+ * @param params - Raw transaction parameters including KeyPair for signing
+ * @param validityStartHeight - Block height from which on the transaction is valid
+ * @param networkId - Id of the network the transaction is valid in
+ * @returns The signed transaction
+ */
+export function signTransaction(
+    params: RawTransactionParams,
+    validityStartHeight: number,
+    networkId: number,
+): NimiqTransaction {
+    const transaction = buildTransaction(params.sender.publicKey.toAddress(), params, validityStartHeight, networkId);
+    transaction.sign(params.sender, undefined);
+    return transaction;
+}
+
 /**
  * RPC Client for interacting with the Nimiq node
  * Provides methods for blockchain queries and wallet operations
@@ -28,16 +100,19 @@ export interface RawTransactionParams {
 export class RpcClient {
     private _host: string;
     private _port: string;
+    private _concurrency: number;
     private _client: NimiqRPCClient;
 
     /**
      * Creates a new RPC client instance
      * @param host - The hostname of the Nimiq node
      * @param port - The port number of the Nimiq node
+     * @param concurrency - Maximum number of parallel requests when scanning many addresses or transactions
      */
-    constructor(host: string, port: string) {
+    constructor(host: string, port: string, concurrency = DEFAULT_CONCURRENCY) {
         this._host = host;
         this._port = port;
+        this._concurrency = concurrency;
         this._client = new NimiqRPCClient({
             httpUrl: `http://${this._host}:${this._port}`,
             wsUrl: `ws://${this._host}:${this._port}/ws`,
@@ -89,30 +164,102 @@ export class RpcClient {
     }
 
     /**
-     * Sends a raw transaction using direct transaction creation and signing
+     * Gets the balances of many addresses, with a bounded number of parallel requests
+     * Failed requests are retried with an increasing delay, before the scan fails as a whole.
+     * @param addresses - The addresses to check
+     * @param onProgress - Optional callback, called with the number of checked addresses after each address
+     * @returns Promise resolving to the balances in luna by address, in the order of the addresses
+     * @throws If the balance of an address can not be fetched after all retries
+     */
+    async getBalances(
+        addresses: string[],
+        onProgress?: (checked: number) => void,
+    ): Promise<Map<string, number>> {
+        return this._scan(addresses, (address) => this.getBalance(address), onProgress);
+    }
+
+    /**
+     * Gets the transactions of many addresses, with the same bounded number of parallel requests and retries as
+     * getBalances
+     * @param addresses - The addresses to get the transactions for
+     * @param onProgress - Optional callback, called with the number of checked addresses after each address
+     * @returns Promise resolving to the transactions by address, in the order of the addresses
+     * @throws If the transactions of an address can not be fetched after all retries
+     */
+    async getTransactionsByAddresses(
+        addresses: string[],
+        onProgress?: (checked: number) => void,
+    ): Promise<Map<string, Transaction[]>> {
+        return this._scan(addresses, (address) => this.getTransactionsByAddress(address), onProgress);
+    }
+
+    /**
+     * Determines the states of many previously sent transactions, with the same bounded number of parallel requests
+     * and retries as getBalances
+     * @param transactions - Signed transactions
+     * @returns Promise resolving to the transaction states by transaction hash
+     * @throws If the state of a transaction can not be determined after all retries
+     */
+    async getTransactionStates(transactions: NimiqTransaction[]): Promise<Map</* hash */ string, TransactionState>> {
+        const states = await this._scan(transactions, (transaction) => this.getTransactionState(transaction));
+        return new Map([...states].map(([transaction, state]) => [transaction.hash(), state]));
+    }
+
+    /**
+     * Runs a request for many addresses or other keys, with a bounded number of parallel requests
+     * Failed requests are retried with an increasing delay, before the scan fails as a whole.
+     * @param keys - The addresses or other keys to run the request for
+     * @param request - Request to run per key
+     * @param onProgress - Optional callback, called with the number of checked keys after each key
+     * @returns Promise resolving to the results by key, in the order of the keys
+     * @throws If the request for a key fails after all retries
+     */
+    private async _scan<K, T>(
+        keys: K[],
+        request: (key: K) => Promise<T>,
+        onProgress?: (checked: number) => void,
+    ): Promise<Map<K, T>> {
+        const results: T[] = new Array(keys.length);
+        let nextIndex = 0;
+        let checked = 0;
+        let failed = false; // stops the other workers once the scan failed
+        const worker = async () => {
+            while (!failed && nextIndex < keys.length) {
+                const index = nextIndex++;
+                for (let retry = 0; ; retry++) {
+                    try {
+                        results[index] = await request(keys[index]);
+                        break;
+                    } catch (error) {
+                        failed ||= retry >= REQUEST_RETRIES;
+                        if (failed) throw error;
+                        await sleep(RETRY_DELAY * 2 ** retry);
+                    }
+                }
+                onProgress?.(++checked);
+            }
+        };
+        await Promise.all(Array.from({ length: Math.min(this._concurrency, keys.length) }, worker));
+        return new Map(keys.map((key, index) => [key, results[index]]));
+    }
+
+    /**
+     * Creates and signs a transaction without sending it
+     * The transaction is valid from the current block height on.
      * @param params - Raw transaction parameters including KeyPair for signing
-     * @returns Promise resolving to the transaction hash
+     * @returns Promise resolving to the signed transaction
      */
-    async sendTransaction(params: RawTransactionParams): Promise<string> {
+    async createTransaction(params: RawTransactionParams): Promise<NimiqTransaction> {
         const blockHeight = await this.getBlockHeight();
-        const networkId = {
-            main: 24,
-            test: 5,
-        }[getConfig().network];
-        // Create transaction using TransactionBuilder
-        const transaction = TransactionBuilder.newBasicWithData(
-            params.sender.publicKey.toAddress(),
-            params.recipient,
-            params.data || new Uint8Array(),
-            BigInt(params.value),
-            BigInt(params.fee || 0),
-            blockHeight,
-            networkId,
-        );
-
-        // Sign the transaction
-        transaction.sign(params.sender);
+        return signTransaction(params, blockHeight, NETWORK_IDS[getConfig().network]);
+    }
 
+    /**
+     * Sends a signed transaction
+     * @param transaction - Signed transaction
+     * @returns Promise resolving to the transaction hash
+     */
+    async sendRawTransaction(transaction: NimiqTransaction): Promise<string> {
         const { data } = await this._client.consensus.sendRawTransaction({
             rawTransaction: transaction.toHex(),
         });
@@ -120,6 +267,64 @@ export class RpcClient {
         return data;
     }
 
+    /**
+     * Sends a raw transaction using direct transaction creation and signing
+     * @param params - Raw transaction parameters including KeyPair for signing
+     * @returns Promise resolving to the transaction hash
+     */
+    async sendTransaction(params: RawTransactionParams): Promise<string> {
+        return this.sendRawTransaction(await this.createTransaction(params));
+    }
+
+    /**
+     * Gets the hashes of all transactions in the mempool of the node
+     * @returns Promise resolving to the set of transaction hashes
+     */
+    async getMempoolTransactionHashes(): Promise<Set<string>> {
+        const { data } = await this._client.mempool.mempoolContent({ includeTransactions: false });
+        if (!Array.isArray(data)) throw new Error('Failed to fetch mempool content');
+        return new Set(data as string[]);
+    }
+
+    /**
+     * Gets the total value and fees of the transactions of an address which are pending in the mempool of the node
+     * @param address - The sender address to check
+     * @returns Promise resolving to the pending outgoing amount in luna
+     */
+    async getPendingOutgoingAmount(address: string): Promise<number> {
+        const { data } = await this._client.mempool.mempoolContent({ includeTransactions: true });
+        if (!Array.isArray(data)) throw new Error('Failed to fetch mempool content');
+        const sender = Address.fromUserFriendlyAddress(address);
+        return (data as Transaction[])
+            .filter((transaction) => Address.fromAny(transaction.from).equals(sender))
+            .reduce((sum, transaction) => sum + Number(transaction.value) + Number(transaction.fee), 0);
+    }
+
+    /**
+     * Determines the state of a previously sent transaction
+     * A transaction is only considered dropped or expired if the node answered that it is neither included nor in the
+     * mempool. Failed requests are not taken as such an answer, as the transaction might then be sent twice.
+     * @param transaction - Signed transaction
+     * @returns Promise resolving to the transaction state, which is never REJECTED as rejections happen when sending
+     * @throws If the node fails to look up the transaction
+     */
+    async getTransactionState(transaction: NimiqTransaction): Promise<TransactionState> {
+        const hash = transaction.hash();
+        const { data: includedTransaction, error: includedError } = await this._client.blockchain
+            .getTransactionByHash(hash);
+        if (includedTransaction) return TransactionState.CONFIRMED;
+        if (includedError && !isNotFoundError(includedError)) {
+            throw new Error(`Failed to fetch transaction ${hash}: ${includedError.message}`);
+        }
+        const { data: pendingTransaction, error: pendingError } = await this._client.mempool
+            .getTransactionFromMempool(hash);
+        if (pendingTransaction) return TransactionState.PENDING;
+        if (pendingError && !isNotFoundError(pendingError)) {
+            throw new Error(`Failed to fetch transaction ${hash} from mempool: ${pendingError.message}`);
+        }
+        return transaction.isValidAt(await this.getBlockHeight()) ? TransactionState.DROPPED : TransactionState.EXPIRED;
+    }
+
     /**
      * Gets all transactions for an address
      * @param address - The address to get transactions for
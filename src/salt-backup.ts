@@ -0,0 +1,148 @@
+/**
+ * Nimiq Cashlink Salt Backup
+ * Converts secret salts to and from mnemonic words for offline backups.
+ *
+ * Features:
+ * - Split salts into parts of 24 BIP39 words, each with its own checksum
+ * - Restore salts from their mnemonic parts
+ * - Fingerprints for verifying restored salts
+ * - Render printable SVG recovery sheets
+ *
+ * The salt backup allows storing salts on paper, as a single lost salt makes all its cashlinks unrecoverable.
+ */
+
+import fs from 'fs';
+import { createCanvas, registerFont } from 'canvas';
+import { BufferUtils, Hash, MnemonicUtils } from '@nimiq/core';
+
+const PART_SIZE = 32; // in bytes, encoded as 24 words
+const WORDS_PER_PART = 24;
+
+// DIN A4 at 400 dpi, extended in height if needed
+const CANVAS_WIDTH = 8.27 * 400;
+const CANVAS_MIN_HEIGHT = 11.6 * 400;
+const MARGIN = 240;
+const HEADER_FONT_SIZE = 96;
+const TEXT_FONT_SIZE = 56;
+const WORD_COLUMNS = 4;
+const LINE_HEIGHT = TEXT_FONT_SIZE * 1.6;
+
+registerFont('fonts/Muli.ttf', { family: 'Muli' });
+registerFont('fonts/Muli-SemiBold.ttf', { family: 'Muli-SemiBold' });
+registerFont('fonts/FiraMono-Regular.ttf', { family: 'Fira Mono' });
+
+/**
+ * Converts a salt into mnemonic parts
+ * @param salt - Base64 encoded salt
+ * @returns List of parts of 24 words each
+ * @throws If the salt length is not a multiple of 32 bytes
+ */
+export function saltToMnemonicParts(salt: string): string[][] {
+    const saltBytes = BufferUtils.fromBase64(salt);
+    if (!saltBytes.length || saltBytes.length % PART_SIZE !== 0) {
+        throw new Error(`Salt of ${saltBytes.length} bytes can not be converted to words, `
+            + `only multiples of ${PART_SIZE} bytes are supported`);
+    }
+
+    const parts: string[][] = [];
+    for (let i = 0; i < saltBytes.length; i += PART_SIZE) {
+        parts.push(MnemonicUtils.entropyToMnemonic(saltBytes.subarray(i, i + PART_SIZE)));
+    }
+    return parts;
+}
+
+/**
+ * Restores a salt from its mnemonic parts
+ * @param parts - List of parts of 24 words each, in their original order
+ * @returns Base64 encoded salt
+ * @throws If a part does not consist of 24 words or its checksum is invalid
+ */
+export function mnemonicPartsToSalt(parts: string[][]): string {
+    if (!parts.length) throw new Error('No words specified');
+    const saltBytes = new Uint8Array(parts.length * PART_SIZE);
+    for (const [index, words] of parts.entries()) {
+        if (words.length !== WORDS_PER_PART) {
+            throw new Error(`Part ${index + 1} has ${words.length} instead of ${WORDS_PER_PART} words`);
+        }
+        try {
+            saltBytes.set(MnemonicUtils.mnemonicToEntropy(words.map((word) => word.toLowerCase())).serialize(),
+                index * PART_SIZE);
+        } catch (error) {
+            throw new Error(`Invalid words in part ${index + 1}: `
+                + (error instanceof Error ? error.message : String(error)));
+        }
+    }
+    return BufferUtils.toBase64(saltBytes);
+}
+
+/**
+ * Computes a short fingerprint of a salt, for checking a restored salt without revealing it
+ * @param salt - Base64 encoded salt
+ * @returns Fingerprint as 8 hex characters
+ */
+export function getSaltFingerprint(salt: string): string {
+    return BufferUtils.toHex(Hash.computeBlake2b(BufferUtils.fromBase64(salt))).substring(0, 8);
+}
+
+/**
+ * Renders a printable recovery sheet listing the mnemonic parts of a salt
+ * @param saltId - Id of the salt
+ * @param salt - Base64 encoded salt
+ * @param file - Output file path of the SVG
+ */
+export function renderRecoverySheet(saltId: string, salt: string, file: string): void {
+    const parts = saltToMnemonicParts(salt);
+    const rowsPerPart = Math.ceil(WORDS_PER_PART / WORD_COLUMNS);
+    const headerHeight = HEADER_FONT_SIZE * 2 + LINE_HEIGHT * 4;
+    const partHeight = LINE_HEIGHT * (rowsPerPart + 2);
+    const canvasHeight = Math.max(CANVAS_MIN_HEIGHT, MARGIN * 2 + headerHeight + parts.length * partHeight
+        + LINE_HEIGHT * 4);
+
+    const canvas = createCanvas(CANVAS_WIDTH, canvasHeight, 'svg');
+    const context = canvas.getContext('2d');
+    context.fillStyle = '#1F2348';
+    context.textBaseline = 'top';
+
+    let y = MARGIN;
+    context.font = `${HEADER_FONT_SIZE}px Muli-SemiBold`;
+    context.fillText('Cashlink Salt Recovery Sheet', MARGIN, y);
+    y += HEADER_FONT_SIZE * 2;
+
+    context.font = `${TEXT_FONT_SIZE}px Muli`;
+    for (const line of [
+        `Salt id: ${saltId}`,
+        `Fingerprint: ${getSaltFingerprint(salt)}`,
+        `${parts.length} parts of ${WORDS_PER_PART} words, each with its own checksum`,
+    ]) {
+        context.fillText(line, MARGIN, y);
+        y += LINE_HEIGHT;
+    }
+    y += LINE_HEIGHT;
+
+    const columnWidth = (CANVAS_WIDTH - MARGIN * 2) / WORD_COLUMNS;
+    for (const [partIndex, words] of parts.entries()) {
+        context.font = `${TEXT_FONT_SIZE}px Muli-SemiBold`;
+        context.fillText(`Part ${partIndex + 1} of ${parts.length}`, MARGIN, y);
+        y += LINE_HEIGHT * 1.25;
+
+        context.font = `${TEXT_FONT_SIZE}px Fira Mono`;
+        for (const [wordIndex, word] of words.entries()) {
+            const column = Math.floor(wordIndex / rowsPerPart); // words are numbered top to bottom per column
+            const row = wordIndex % rowsPerPart;
+            context.fillText(`${String(wordIndex + 1).padStart(2, ' ')}. ${word}`, MARGIN + column * columnWidth,
+                y + row * LINE_HEIGHT);
+        }
+        y += partHeight - LINE_HEIGHT * 1.25;
+    }
+
+    context.font = `${TEXT_FONT_SIZE * .8}px Muli`;
+    for (const line of [
+        `Restore with: yarn run secret --restore ${saltId}`,
+        'Keep this sheet secret. Anyone with access to it can recreate and drain all Cashlinks of this salt.',
+    ]) {
+        context.fillText(line, MARGIN, y);
+        y += LINE_HEIGHT;
+    }
+
+    fs.writeFileSync(file, canvas.toBuffer());
+}
@@ -0,0 +1,93 @@
+/**
+ * Nimiq Cashlink Salt Encryption
+ * Encrypts secret salts under a passphrase for storage in the .env file.
+ *
+ * Features:
+ * - Key derivation from the passphrase via scrypt
+ * - Authenticated encryption via AES-256-GCM
+ * - Self-describing format including the KDF parameters
+ *
+ * The salt encryption ensures that read access to the .env file alone does not allow recreating cashlinks.
+ */
+
+import crypto from 'crypto';
+import { promisify } from 'util';
+
+const ENCRYPTED_SALT_PREFIX = 'encrypted:scrypt-aes-256-gcm:';
+const SCRYPT_LOG_N = 17; // cost parameter N = 2^17, as recommended by OWASP
+const SCRYPT_R = 8;
+const SCRYPT_P = 1;
+const KDF_SALT_LENGTH = 16;
+const IV_LENGTH = 12;
+const KEY_LENGTH = 32;
+
+const scrypt = promisify(crypto.scrypt) as
+    (password: string, salt: Buffer, keylen: number, options: crypto.ScryptOptions) => Promise<Buffer>;
+
+/**
+ * Derives the encryption key from a passphrase
+ * @param passphrase - Passphrase to derive the key from
+ * @param kdfSalt - Random salt of the key derivation
+ * @param logN - Logarithm of the scrypt cost parameter
+ * @returns Derived key
+ */
+function deriveKey(passphrase: string, kdfSalt: Buffer, logN: number): Promise<Buffer> {
+    const N = 2 ** logN;
+    return scrypt(passphrase, kdfSalt, KEY_LENGTH, {
+        N,
+        r: SCRYPT_R,
+        p: SCRYPT_P,
+        maxmem: 2 * 128 * N * SCRYPT_R, // scrypt requires 128 * N * r bytes
+    });
+}
+
+/**
+ * Checks whether a salt is stored encrypted
+ * @param salt - Salt as stored in the .env file
+ * @returns Boolean indicating if the salt is encrypted
+ */
+export function isEncryptedSalt(salt: string): boolean {
+    return salt.startsWith(ENCRYPTED_SALT_PREFIX);
+}
+
+/**
+ * Encrypts a salt under a passphrase
+ * @param salt - Base64 encoded salt to encrypt
+ * @param passphrase - Passphrase to encrypt the salt with
+ * @returns Encrypted salt in the format encrypted:scrypt-aes-256-gcm:<log N>:<kdf salt>:<iv>:<ciphertext>:<tag>
+ */
+export async function encryptSalt(salt: string, passphrase: string): Promise<string> {
+    const kdfSalt = crypto.randomBytes(KDF_SALT_LENGTH);
+    const iv = crypto.randomBytes(IV_LENGTH);
+    const key = await deriveKey(passphrase, kdfSalt, SCRYPT_LOG_N);
+
+    const cipher = crypto.createCipheriv('aes-256-gcm', key, iv);
+    const ciphertext = Buffer.concat([cipher.update(salt, 'utf8'), cipher.final()]);
+    const tag = cipher.getAuthTag();
+
+    return ENCRYPTED_SALT_PREFIX
+        + [SCRYPT_LOG_N, kdfSalt.toString('base64'), iv.toString('base64'), ciphertext.toString('base64'),
+            tag.toString('base64')].join(':');
+}
+
+/**
+ * Decrypts a salt encrypted via encryptSalt
+ * @param encryptedSalt - Encrypted salt as stored in the .env file
+ * @param passphrase - Passphrase the salt was encrypted with
+ * @returns Base64 encoded salt
+ * @throws If the encrypted salt is malformed or the passphrase is wrong
+ */
+export async function decryptSalt(encryptedSalt: string, passphrase: string): Promise<string> {
+    if (!isEncryptedSalt(encryptedSalt)) throw new Error('Salt is not encrypted');
+    const [logN, kdfSalt, iv, ciphertext, tag] = encryptedSalt.substring(ENCRYPTED_SALT_PREFIX.length).split(':');
+    if (tag === undefined || !/^\d+$/.test(logN)) throw new Error('Malformed encrypted salt');
+
+    const key = await deriveKey(passphrase, Buffer.from(kdfSalt, 'base64'), parseInt(logN));
+    const decipher = crypto.createDecipheriv('aes-256-gcm', key, Buffer.from(iv, 'base64'));
+    decipher.setAuthTag(Buffer.from(tag, 'base64'));
+    try {
+        return Buffer.concat([decipher.update(Buffer.from(ciphertext, 'base64')), decipher.final()]).toString('utf8');
+    } catch {
+        throw new Error('Wrong passphrase or corrupted encrypted salt');
+    }
+}
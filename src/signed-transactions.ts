@@ -0,0 +1,50 @@
+/**
+ * Nimiq Cashlink Signed Transactions
+ * Exports and imports signed transactions, for transferring them between an offline and an online machine.
+ *
+ * Features:
+ * - One transaction per cashlink, identified by its token
+ * - Raw transactions as hex, such that they can be sent as is
+ * - Hash verification on import
+ *
+ * The signed transactions file allows signing funding transactions on an airgapped machine.
+ */
+
+import fs from 'fs';
+import { Transaction } from '@nimiq/core';
+
+/**
+ * Exports signed transactions
+ * Each line has the format token,transactionHash,rawTransactionHex, like the funding journal.
+ * @param transactions - Signed transactions by cashlink token
+ * @param file - Output file path
+ */
+export function exportSignedTransactions(transactions: Map</* token */ string, Transaction>, file: string): void {
+    fs.writeFileSync(file, [...transactions]
+        .map(([token, transaction]) => `${token},${transaction.hash()},${transaction.toHex()}\n`)
+        .join(''));
+}
+
+/**
+ * Imports signed transactions
+ * @param file - Path of the exported signed transactions
+ * @returns Signed transactions by cashlink token
+ * @throws If the file is malformed or lists a cashlink multiple times
+ */
+export function importSignedTransactions(file: string): Map</* token */ string, Transaction> {
+    const transactions = new Map</* token */ string, Transaction>();
+    const lines = fs.readFileSync(file, 'utf8').trim().split('\n').filter((line) => !!line);
+    for (const [index, line] of lines.entries()) {
+        const [token, hash, rawTransaction] = line.split(',');
+        try {
+            if (transactions.has(token)) throw new Error(`Duplicate Cashlink ${token}`);
+            const transaction = Transaction.fromAny(rawTransaction);
+            if (transaction.hash() !== hash) throw new Error('Transaction hash mismatch');
+            transactions.set(token, transaction);
+        } catch (error) {
+            throw new Error(`Malformed line ${index + 1} of signed transactions ${file}: `
+                + (error instanceof Error ? error.message : String(error)));
+        }
+    }
+    return transactions;
+}
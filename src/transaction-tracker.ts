@@ -0,0 +1,333 @@
+/**
+ * Nimiq Cashlink Transaction Tracker
+ * Tracks sent funding and claiming transactions until they are included in a block or expired.
+ *
+ * Features:
+ * - Poll the mempool and the blockchain for the states of sent transactions, retrying failed polls
+ * - Resend transactions dropped by the node while still being valid
+ * - Summarize confirmed, expired and rejected transactions
+ * - Warn about transactions nearing expiry without being included
+ * - Rebroadcast expired transactions with a fresh validity window, automatically or on request
+ * - Keep the funding journal up to date
+ *
+ * The transaction tracker ensures that no transaction silently goes missing.
+ */
+
+import { KeyPair, Policy, Transaction } from '@nimiq/core';
+import { RpcClient, TransactionState } from './rpc-client.ts';
+import { FundingJournal } from './funding-journal.ts';
+import { sleep } from './utils.ts';
+
+const POLL_INTERVAL = 2000; // in ms
+const PROGRESS_LOG_INTERVAL = 30; // in polls
+const EXPIRY_WARNING_BLOCKS = 600; // ~10 minutes at one block per second
+const MAX_AUTOMATIC_REBROADCASTS = 3; // per cashlink
+const MAX_FAILED_POLLS = 10; // consecutive, before giving up
+
+/**
+ * A sent transaction and, if known, the key it was signed with, for rebuilding it
+ */
+export interface TrackedTransaction {
+    sender?: KeyPair; // unknown for transactions which were signed offline
+    transaction: Transaction;
+    state: TransactionState;
+}
+
+/**
+ * Tracked transactions by cashlink token
+ */
+export type TrackedTransactions = Map</* token */ string, TrackedTransaction>;
+
+/**
+ * Counts the tracked transactions in a specific state
+ * @param transactions - Tracked transactions
+ * @param state - State to count
+ * @returns Number of transactions in the state
+ */
+export function countTransactions(transactions: TrackedTransactions, state: TransactionState): number {
+    return [...transactions.values()].filter((tracked) => tracked.state === state).length;
+}
+
+/**
+ * Handles a failed poll of the node, such that it is retried with the next poll
+ * @param error - Error of the failed poll
+ * @param failedPolls - Number of consecutive failed polls before this one
+ * @returns Number of consecutive failed polls, including this one
+ * @throws If the maximum number of consecutive polls failed
+ */
+export function handleFailedPoll(error: unknown, failedPolls: number): number {
+    const message = error instanceof Error ? error.message : String(error);
+    if (++failedPolls >= MAX_FAILED_POLLS) {
+        throw new Error(`Polling the node failed ${failedPolls} consecutive times, giving up: ${message}`);
+    }
+    console.error(`Failed to poll the node (${failedPolls} of ${MAX_FAILED_POLLS} attempts), retrying:`, message);
+    return failedPolls;
+}
+
+/**
+ * Updates the states of all pending transactions once
+ * Transactions which were dropped by the node while still being valid are resent as is and remain pending, unless the
+ * node rejects them. Transactions whose state can not be determined remain pending, too, and are checked again on the
+ * next update.
+ * @param transactions - Tracked transactions, updated in place
+ * @param rpcClient - RPC client for mempool and transaction state queries
+ * @param journal - Optional funding journal to record state changes in
+ * @throws If the mempool of the node can not be queried
+ */
+export async function updateTransactionStates(
+    transactions: TrackedTransactions,
+    rpcClient: RpcClient,
+    journal?: FundingJournal,
+): Promise<void> {
+    const mempoolHashes = await rpcClient.getMempoolTransactionHashes();
+    for (const [token, tracked] of transactions) {
+        if (tracked.state !== TransactionState.PENDING || mempoolHashes.has(tracked.transaction.hash())) continue;
+
+        let state: TransactionState;
+        try {
+            state = await rpcClient.getTransactionState(tracked.transaction);
+        } catch (error) {
+            // keep the transaction pending and check it again with the next poll
+            console.error(`Failed to check transaction of Cashlink ${token}:`,
+                error instanceof Error ? error.message : error);
+            continue;
+        }
+        if (state === TransactionState.PENDING) continue;
+        if (state === TransactionState.DROPPED) {
+            await resendDroppedTransaction(token, tracked, rpcClient, journal);
+            continue;
+        }
+
+        tracked.state = state;
+        journal?.record(token, tracked.transaction, state);
+    }
+}
+
+/**
+ * Resends a transaction which was dropped by the node while still being valid
+ * Resending it as is can not result in double spending, as it has the same hash. If the node rejects it, it is marked
+ * as rejected, such that a single failing transaction does not stop tracking the others.
+ * @param token - Token of the cashlink of the transaction
+ * @param tracked - Tracked transaction, updated in place
+ * @param rpcClient - RPC client for transaction submission
+ * @param journal - Optional funding journal to record state changes in
+ */
+async function resendDroppedTransaction(
+    token: string,
+    tracked: TrackedTransaction,
+    rpcClient: RpcClient,
+    journal?: FundingJournal,
+): Promise<void> {
+    const previousState = tracked.state;
+    try {
+        await rpcClient.sendRawTransaction(tracked.transaction);
+        tracked.state = TransactionState.PENDING;
+    } catch (error) {
+        console.error(`Failed to resend transaction of Cashlink ${token}:`,
+            error instanceof Error ? error.message : error);
+        tracked.state = TransactionState.REJECTED;
+    }
+    if (tracked.state !== previousState) journal?.record(token, tracked.transaction, tracked.state);
+}
+
+/**
+ * Polls the node until all pending transactions are included in a block or expired
+ * Transactions nearing the end of their validity window without being included are reported. They can not be replaced
+ * before they expired, as both, the original and the replacement, could then be included. Once expired, they are
+ * rebuilt with a fresh validity window and resent, up to a maximum number of times per cashlink. Failed polls of the
+ * node are retried with the next poll, up to a maximum number of consecutive failures.
+ * @param transactions - Tracked transactions, updated in place
+ * @param rpcClient - RPC client for mempool and transaction state queries
+ * @param journal - Optional funding journal to record state changes in
+ * @throws If the maximum number of consecutive polls failed
+ */
+export async function trackTransactions(
+    transactions: TrackedTransactions,
+    rpcClient: RpcClient,
+    journal?: FundingJournal,
+): Promise<void> {
+    const rebroadcasts = new Map</* token */ string, number>();
+    const expiryWarnings = new Set</* transaction hash */ string>();
+    const isRebroadcastable = (token: string, state: TransactionState) => state === TransactionState.EXPIRED
+        && !!transactions.get(token)!.sender && (rebroadcasts.get(token) || 0) < MAX_AUTOMATIC_REBROADCASTS;
+    let polls = 0;
+    let failedPolls = 0;
+    while ([...transactions].some(([token, { state }]) => state === TransactionState.PENDING
+        || isRebroadcastable(token, state))) {
+        await sleep(POLL_INTERVAL);
+        let blockHeight: number;
+        try {
+            await updateTransactionStates(transactions, rpcClient, journal);
+            blockHeight = await rpcClient.getBlockHeight();
+            failedPolls = 0;
+        } catch (error) {
+            failedPolls = handleFailedPoll(error, failedPolls);
+            continue;
+        }
+
+        for (const [token, { transaction, state }] of transactions) {
+            if (isRebroadcastable(token, state)) {
+                console.log(`Transaction of Cashlink ${token} expired without being included. Rebuilding it.`);
+                rebroadcasts.set(token, (rebroadcasts.get(token) || 0) + 1);
+                await rebroadcastExpiredTransaction(token, transactions, rpcClient, journal);
+                continue;
+            }
+
+            const remainingBlocks = transaction.validityStartHeight + Policy.TRANSACTION_VALIDITY_WINDOW_BLOCKS
+                - blockHeight;
+            if (state !== TransactionState.PENDING || remainingBlocks > EXPIRY_WARNING_BLOCKS
+                || expiryWarnings.has(transaction.hash())) continue;
+            expiryWarnings.add(transaction.hash());
+            console.log(`Transaction of Cashlink ${token} expires in ${remainingBlocks} blocks without being `
+                + 'included yet. ' + (transactions.get(token)!.sender
+                ? 'It will be rebuilt and resent once expired.'
+                : 'It was signed offline and needs to be signed again once expired.'));
+        }
+
+        polls++;
+        const pending = countTransactions(transactions, TransactionState.PENDING);
+        if (pending && polls % PROGRESS_LOG_INTERVAL === 0) {
+            console.log(`${pending} of ${transactions.size} transactions still pending.`);
+        }
+    }
+}
+
+/**
+ * Formats a summary of the tracked transactions, listing the cashlinks of expired and rejected transactions
+ * For paid transactions, the fees spent by the confirmed transactions are included.
+ * @param transactions - Tracked transactions
+ * @param label - Label of the transactions, e.g. "funding"
+ * @returns Formatted summary string
+ */
+export function formatTransactionSummary(transactions: TrackedTransactions, label: string): string {
+    const fees = [...transactions.values()]
+        .filter(({ state }) => state === TransactionState.CONFIRMED)
+        .reduce((sum, { transaction }) => sum + Number(transaction.fee), 0);
+    let summary = `${transactions.size} ${label} transactions: `
+        + `${countTransactions(transactions, TransactionState.CONFIRMED)} confirmed, `
+        + `${countTransactions(transactions, TransactionState.EXPIRED)} expired, `
+        + `${countTransactions(transactions, TransactionState.REJECTED)} rejected`
+        + (fees ? `, ${fees / 1e5} NIM in fees spent.\n` : '.\n');
+    for (const state of [TransactionState.EXPIRED, TransactionState.REJECTED]) {
+        const tokens = [...transactions].filter(([, tracked]) => tracked.state === state).map(([token]) => token);
+        if (!tokens.length) continue;
+        summary += `    ${state[0].toUpperCase()}${state.substring(1)}: ${tokens.join(', ')}\n`;
+    }
+    return summary;
+}
+
+/**
+ * Checks if a cashlink holds a balance or ever received a transaction, e.g. a funding transaction which was included
+ * and claimed since
+ * @param address - Address of the cashlink
+ * @param rpcClient - RPC client for balance and transaction history queries
+ * @returns Promise resolving to true if the cashlink was funded
+ * @throws If the balance or the transaction history can not be fetched, e.g. because the node does not index it
+ */
+async function wasFunded(address: string, rpcClient: RpcClient): Promise<boolean> {
+    if (await rpcClient.getBalance(address) > 0) return true;
+    return (await rpcClient.getTransactionsByAddress(address))
+        .some(({ to: recipient, timestamp }) => recipient === address && !!timestamp);
+}
+
+/**
+ * Rebuilds an expired transaction with a fresh validity window and sends it
+ * Expired transactions can not be included anymore, such that rebroadcasting them can not result in double spending.
+ * To rule out that the transaction got included after all, its state is checked again before rebuilding it. For
+ * funding transactions, i.e. if a funding journal is given, the balance and the transaction history of the cashlink
+ * are checked, too, and cashlinks which already hold a balance or received a transaction are counted as funded
+ * instead. If they can not be checked, the transaction is kept expired.
+ * @param token - Token of the cashlink of the transaction
+ * @param transactions - Tracked transactions, updated in place
+ * @param rpcClient - RPC client for transaction submission
+ * @param journal - Optional funding journal to record the rebuilt transaction in
+ * @returns Boolean indicating if the transaction was rebroadcast
+ */
+async function rebroadcastExpiredTransaction(
+    token: string,
+    transactions: TrackedTransactions,
+    rpcClient: RpcClient,
+    journal?: FundingJournal,
+): Promise<boolean> {
+    const tracked = transactions.get(token)!;
+    let state: TransactionState;
+    try {
+        state = await rpcClient.getTransactionState(tracked.transaction);
+    } catch (error) {
+        console.error(`Failed to check transaction of Cashlink ${token}:`,
+            error instanceof Error ? error.message : error);
+        return false;
+    }
+    if (state === TransactionState.DROPPED) {
+        // the node was lagging behind and the transaction is still valid
+        await resendDroppedTransaction(token, tracked, rpcClient, journal);
+        return false;
+    }
+    if (state !== TransactionState.EXPIRED) {
+        // the node was lagging behind, e.g. the transaction got included in the meantime
+        tracked.state = state;
+        journal?.record(token, tracked.transaction, tracked.state);
+        return false;
+    }
+
+    if (!tracked.sender) {
+        console.log(`Transaction of Cashlink ${token} was signed offline and needs to be signed again.`);
+        return false;
+    }
+    const { recipient, value, fee, data } = tracked.transaction;
+    let transaction: Transaction;
+    try {
+        if (journal && await wasFunded(recipient.toUserFriendlyAddress(), rpcClient)) {
+            console.log(`Cashlink ${token} already holds a balance or received a transaction and is counted as `
+                + 'funded.');
+            tracked.state = TransactionState.CONFIRMED;
+            journal.record(token, tracked.transaction, TransactionState.CONFIRMED);
+            return false;
+        }
+        transaction = await rpcClient.createTransaction({
+            sender: tracked.sender,
+            recipient,
+            value: Number(value),
+            fee: Number(fee),
+            data,
+        });
+    } catch (error) {
+        // keep the transaction expired, such that it can be rebuilt later
+        console.error(`Failed to rebuild transaction of Cashlink ${token}:`,
+            error instanceof Error ? error.message : error);
+        return false;
+    }
+    // record before sending, such that the transaction is known even if the process crashes while sending
+    journal?.record(token, transaction, TransactionState.PENDING);
+    try {
+        await rpcClient.sendRawTransaction(transaction);
+        transactions.set(token, { sender: tracked.sender, transaction, state: TransactionState.PENDING });
+        return true;
+    } catch (error) {
+        console.error(`Failed to rebroadcast transaction of Cashlink ${token}:`,
+            error instanceof Error ? error.message : error);
+        transactions.set(token, { sender: tracked.sender, transaction, state: TransactionState.REJECTED });
+        journal?.record(token, transaction, TransactionState.REJECTED);
+        return false;
+    }
+}
+
+/**
+ * Rebuilds all expired transactions with a fresh validity window and sends them
+ * @param transactions - Tracked transactions, updated in place
+ * @param rpcClient - RPC client for transaction submission
+ * @param journal - Optional funding journal to record the rebuilt transactions in
+ * @returns Number of rebroadcast transactions
+ */
+export async function rebroadcastExpiredTransactions(
+    transactions: TrackedTransactions,
+    rpcClient: RpcClient,
+    journal?: FundingJournal,
+): Promise<number> {
+    let rebroadcast = 0;
+    for (const [token, { state }] of transactions) {
+        if (state !== TransactionState.EXPIRED) continue;
+        if (await rebroadcastExpiredTransaction(token, transactions, rpcClient, journal)) rebroadcast++;
+    }
+    return rebroadcast;
+}
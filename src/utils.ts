@@ -1,4 +1,5 @@
 import readline from 'readline';
+import { Writable } from 'stream';
 
 /**
  * CLI prompt helper with proper readline interface
@@ -15,3 +16,57 @@ export async function prompt(question: string): Promise<string> {
     rl.close();
     return response;
 }
+
+/**
+ * Waits for the specified time
+ * @param ms - Time to wait in milliseconds
+ * @returns Promise resolving after the specified time
+ */
+export function sleep(ms: number): Promise<void> {
+    return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Output stream which forwards to stdout unless muted, for hiding secret user input
+ */
+export class MutableStdout extends Writable {
+    private state: { muted: boolean };
+
+    constructor() {
+        const state = { muted: false };
+        super({
+            write: function(chunk: any, encoding: BufferEncoding, callback: (error?: Error | null) => void) {
+                if (!state.muted) {
+                    process.stdout.write(chunk, encoding);
+                }
+                callback();
+            },
+        });
+        this.state = state;
+    }
+
+    set muted(shouldMute: boolean) {
+        this.state.muted = shouldMute;
+    }
+}
+
+/**
+ * CLI prompt helper for secret input, which is not displayed
+ * @param question - Prompt text to display
+ * @returns User input as promise
+ */
+export async function promptSecret(question: string): Promise<string> {
+    const mutableStdout = new MutableStdout();
+    const rl = readline.createInterface({
+        input: process.stdin,
+        output: mutableStdout,
+        terminal: true,
+    });
+    const response = await new Promise<string>((resolve) => {
+        rl.question(question, resolve);
+        mutableStdout.muted = true;
+    });
+    rl.close();
+    console.log(); // print new line
+    return response;
+}
@@ -0,0 +1,168 @@
+/**
+ * Nimiq Cashlink Parsing Tests
+ * Unit tests for parsing cashlinks and the errors reported for malformed cashlinks.
+ *
+ * Features:
+ * - Round trip of rendered cashlinks
+ * - One test per reachable parse error reason, including its offset and location
+ * - Non-throwing parsing via tryParse
+ *
+ * These tests run offline and do not require a node.
+ */
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { BufferUtils, KeyPair } from '@nimiq/core';
+import { Cashlink, CashlinkTheme, parseCashlinkTheme } from '../src/cashlink.ts';
+import {
+    CashlinkDataError,
+    CashlinkEncodingError,
+    CashlinkParseError,
+    CashlinkParseErrorReason,
+} from '../src/cashlink-parse-error.ts';
+
+const BASE_URL = 'https://hub.nimiq-testnet.com/cashlink/';
+const PRIVATE_KEY = KeyPair.generate().privateKey.serialize();
+const VALUE = [0, 0, 0, 0, 0, 1, 134, 160]; // 100000 luna as big endian uint64
+
+/**
+ * Renders raw cashlink data as cashlink url
+ * @param bytes - Cashlink data
+ * @returns Cashlink url
+ */
+function toCashlinkUrl(...bytes: Array<Uint8Array | number[]>): string {
+    const data = new Uint8Array(bytes.flatMap((part) => [...part]));
+    return `${BASE_URL}#${BufferUtils.toBase64Url(data)}`;
+}
+
+/**
+ * Asserts that parsing a cashlink fails with the expected error
+ * @param url - Cashlink url to parse
+ * @param errorClass - Expected error class
+ * @param reason - Expected reason
+ * @param offset - Expected offset
+ */
+function assertParseError(
+    url: string,
+    errorClass: typeof CashlinkEncodingError | typeof CashlinkDataError,
+    reason: CashlinkParseErrorReason,
+    offset: number,
+): void {
+    assert.throws(() => Cashlink.parse(url), (error) => {
+        assert.ok(error instanceof errorClass);
+        assert.equal(error.reason, reason);
+        assert.equal(error.offset, offset);
+        assert.equal(error.location, `${errorClass === CashlinkEncodingError ? 'character' : 'byte'} ${offset}`);
+        return true;
+    });
+}
+
+describe('Cashlink.parse', () => {
+    it('parses rendered cashlinks', () => {
+        const keyPair = KeyPair.generate();
+        const cashlink = Cashlink.parse(new Cashlink(BASE_URL, keyPair, 12345, 'Hello 🎉', CashlinkTheme.BIRTHDAY)
+            .render());
+        assert.equal(cashlink.baseUrl, BASE_URL);
+        assert.ok(cashlink.keyPair.privateKey.equals(keyPair.privateKey));
+        assert.equal(cashlink.value, 12345);
+        assert.equal(cashlink.message, 'Hello 🎉');
+        assert.equal(cashlink.theme, CashlinkTheme.BIRTHDAY);
+    });
+
+    it('parses cashlinks without message and theme', () => {
+        const cashlink = Cashlink.parse(toCashlinkUrl(PRIVATE_KEY, VALUE));
+        assert.equal(cashlink.value, 100000);
+        assert.equal(cashlink.message, '');
+        assert.equal(cashlink.theme, CashlinkTheme.UNSPECIFIED);
+    });
+
+    it('parses long cashlinks with ~ separators', () => {
+        const url = new Cashlink(BASE_URL, KeyPair.generate(), 1, 'x'.repeat(255)).render();
+        assert.ok(url.includes('~'));
+        assert.equal(Cashlink.parse(url).message, 'x'.repeat(255));
+    });
+
+    it('rejects cashlinks without # separator', () => {
+        const url = `${BASE_URL}${BufferUtils.toBase64Url(PRIVATE_KEY)}`;
+        assertParseError(url, CashlinkEncodingError, CashlinkParseErrorReason.MISSING_SEPARATOR, url.length);
+    });
+
+    it('rejects invalid base64 characters', () => {
+        const url = `${BASE_URL}#AAAA!AAA`;
+        assertParseError(url, CashlinkEncodingError, CashlinkParseErrorReason.INVALID_BASE64, BASE_URL.length + 5);
+    });
+
+    it('rejects padding which is not at the end', () => {
+        const url = `${BASE_URL}#AA=A`;
+        assertParseError(url, CashlinkEncodingError, CashlinkParseErrorReason.INVALID_BASE64, BASE_URL.length + 3);
+    });
+
+    it('rejects invalid base64 lengths', () => {
+        const url = `${BASE_URL}#AAAAA`;
+        assertParseError(url, CashlinkEncodingError, CashlinkParseErrorReason.INVALID_BASE64, url.length);
+    });
+
+    it('rejects truncated private keys', () => {
+        assertParseError(toCashlinkUrl(PRIVATE_KEY.subarray(0, 16)), CashlinkDataError,
+            CashlinkParseErrorReason.TRUNCATED_KEY, 16);
+        assertParseError(`${BASE_URL}#`, CashlinkDataError, CashlinkParseErrorReason.TRUNCATED_KEY, 0);
+    });
+
+    it('rejects truncated values', () => {
+        assertParseError(toCashlinkUrl(PRIVATE_KEY, VALUE.slice(0, 4)), CashlinkDataError,
+            CashlinkParseErrorReason.TRUNCATED_VALUE, 36);
+    });
+
+    it('rejects zero values', () => {
+        assertParseError(toCashlinkUrl(PRIVATE_KEY, [0, 0, 0, 0, 0, 0, 0, 0]), CashlinkDataError,
+            CashlinkParseErrorReason.INVALID_VALUE, 32);
+    });
+
+    it('rejects values exceeding the safe integer range', () => {
+        assertParseError(toCashlinkUrl(PRIVATE_KEY, [0, 32, 0, 0, 0, 0, 0, 0]), CashlinkDataError,
+            CashlinkParseErrorReason.INVALID_VALUE, 32);
+    });
+
+    it('rejects message lengths exceeding the cashlink data', () => {
+        assertParseError(toCashlinkUrl(PRIVATE_KEY, VALUE, [10], [104, 105, 33]), CashlinkDataError,
+            CashlinkParseErrorReason.MESSAGE_OVERFLOW, 40);
+    });
+
+    it('rejects trailing bytes after the theme', () => {
+        assertParseError(toCashlinkUrl(PRIVATE_KEY, VALUE, [0, CashlinkTheme.BIRTHDAY, 1]), CashlinkDataError,
+            CashlinkParseErrorReason.TRAILING_BYTES, 42);
+    });
+});
+
+describe('Cashlink.tryParse', () => {
+    it('returns the cashlink for valid cashlinks', () => {
+        const { cashlink, error } = Cashlink.tryParse(toCashlinkUrl(PRIVATE_KEY, VALUE, [2, 104, 105]));
+        assert.equal(error, null);
+        assert.equal(cashlink?.message, 'hi');
+    });
+
+    it('returns the error instead of throwing for malformed cashlinks', () => {
+        const { cashlink, error } = Cashlink.tryParse(toCashlinkUrl(PRIVATE_KEY, VALUE.slice(0, 4)));
+        assert.equal(cashlink, null);
+        assert.ok(error instanceof CashlinkParseError);
+        assert.equal(error.reason, CashlinkParseErrorReason.TRUNCATED_VALUE);
+    });
+});
+
+describe('Cashlink properties', () => {
+    it('rejects messages exceeding 255 bytes', () => {
+        assert.throws(() => new Cashlink(BASE_URL, KeyPair.generate(), 1, 'x'.repeat(256)), /too long/);
+        // multi-byte characters count with their utf-8 size
+        assert.throws(() => new Cashlink(BASE_URL, KeyPair.generate(), 1, '🎉'.repeat(64)), /too long/);
+    });
+
+    it('rejects themes which are not a byte', () => {
+        assert.throws(() => new Cashlink(BASE_URL, KeyPair.generate(), 1, '', 256), /Invalid theme/);
+    });
+
+    it('parses themes by name or number and falls back to no theme', () => {
+        assert.equal(parseCashlinkTheme('birthday'), CashlinkTheme.BIRTHDAY);
+        assert.equal(parseCashlinkTheme('200'), 200);
+        assert.equal(parseCashlinkTheme('no-such-theme'), CashlinkTheme.UNSPECIFIED);
+    });
+});
@@ -0,0 +1,117 @@
+/**
+ * Nimiq Cashlink File Handler Tests
+ * Unit tests for importing tier specifications, token lists and backup words.
+ *
+ * Features:
+ * - Tier files in csv and json format, including optional and empty columns
+ * - Token lists of tokens, short links and exported cashlink csv files
+ * - Rejection of malformed files
+ *
+ * These tests run offline and do not require a node.
+ */
+
+import { after, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { CashlinkTheme } from '../src/cashlink.ts';
+import { importBackupWords, importTiers, importTokens } from '../src/file-handler.ts';
+
+const folder = fs.mkdtempSync(path.join(os.tmpdir(), 'cashlink-file-handler-test-'));
+after(() => fs.rmSync(folder, { recursive: true }));
+
+/**
+ * Writes a file to the temporary test folder
+ * @param name - File name
+ * @param content - File content
+ * @returns Path of the written file
+ */
+function writeFile(name: string, content: string): string {
+    const file = path.join(folder, name);
+    fs.writeFileSync(file, content);
+    return file;
+}
+
+describe('importTiers', () => {
+    it('imports csv tiers', () => {
+        const file = writeFile('tiers.csv', 'count,value,theme,message\n'
+            + '100,1,,Thanks for joining!\n'
+            + '20,10.5,birthday,You\'re lucky, congrats!\n'
+            + '\n'
+            + '2,100,3,none\n');
+        assert.deepEqual(importTiers(file), [
+            { count: 100, value: 100000, message: 'Thanks for joining!', theme: undefined },
+            { count: 20, value: 1050000, message: 'You\'re lucky, congrats!', theme: CashlinkTheme.BIRTHDAY },
+            { count: 2, value: 10000000, message: '', theme: 3 },
+        ]);
+    });
+
+    it('treats missing and empty csv columns as not specified', () => {
+        const file = writeFile('tiers-empty.csv', '10,1,,\n5,2\n');
+        assert.deepEqual(importTiers(file), [
+            { count: 10, value: 100000, message: undefined, theme: undefined },
+            { count: 5, value: 200000, message: undefined, theme: undefined },
+        ]);
+    });
+
+    it('imports json tiers', () => {
+        const file = writeFile('tiers.json', JSON.stringify([
+            { count: 1, value: 2, message: 'Jackpot!', theme: 'birthday' },
+            { count: 3, value: 4, theme: 3 },
+            { count: 5, value: 6, message: '' },
+        ]));
+        assert.deepEqual(importTiers(file), [
+            { count: 1, value: 200000, message: 'Jackpot!', theme: CashlinkTheme.BIRTHDAY },
+            { count: 3, value: 400000, message: undefined, theme: 3 },
+            { count: 5, value: 600000, message: undefined, theme: undefined },
+        ]);
+    });
+
+    it('rejects invalid tiers', () => {
+        assert.throws(() => importTiers(writeFile('count.csv', '0,1\n')), /Invalid cashlink count 0/);
+        assert.throws(() => importTiers(writeFile('value.csv', '1,abc\n')), /Invalid cashlink value abc/);
+        assert.throws(() => importTiers(writeFile('header.csv', 'count,value,theme,message\n')), /No tiers/);
+        assert.throws(() => importTiers(writeFile('object.json', '{}')), /array of tiers/);
+        assert.throws(() => importTiers(writeFile('message.json', '[{"count":1,"value":1,"message":1}]')),
+            /Invalid message/);
+    });
+});
+
+describe('importTokens', () => {
+    it('imports tokens and short links', () => {
+        const file = writeFile('tokens.txt', 'abc123\n  https://nim.id/def456  \n\nabc123\n');
+        const { tokens, shortLinks, saltIds } = importTokens(file);
+        assert.deepEqual(tokens, ['abc123', 'def456']);
+        assert.deepEqual([...shortLinks], [['def456', 'https://nim.id/def456']]);
+        assert.equal(saltIds.size, 0);
+    });
+
+    it('imports tokens and salt ids of exported cashlink csv files', () => {
+        const file = writeFile('cashlinks.csv', 'abc123,https://nim.id/abc123,abc123.svg,https://hub/#x,key,summer\n'
+            + 'def456,,,https://hub/#y,key,\n');
+        const { tokens, shortLinks, saltIds } = importTokens(file);
+        assert.deepEqual(tokens, ['abc123', 'def456']);
+        assert.equal(shortLinks.size, 0);
+        assert.deepEqual([...saltIds], [['abc123', 'summer']]);
+    });
+
+    it('rejects invalid tokens', () => {
+        assert.throws(() => importTokens(writeFile('invalid.txt', 'abc 123\n')), /Invalid token/);
+        assert.throws(() => importTokens(writeFile('empty.txt', '\n')), /No tokens/);
+    });
+});
+
+describe('importBackupWords', () => {
+    it('imports the backup words of each account and strips word numbers', () => {
+        const words = Array.from({ length: 24 }, (_, index) => `word${'abcdefghijklmnopqrstuvwx'[index]}`);
+        const file = writeFile('backup-words.txt', `${words.join(' ')}\n\n`
+            + `${words.map((word, index) => `${index + 1}. ${word}`).join(' ')}\n`);
+        assert.deepEqual(importBackupWords(file), [words, words]);
+    });
+
+    it('rejects accounts without 24 words', () => {
+        assert.throws(() => importBackupWords(writeFile('short.txt', 'abandon '.repeat(23))),
+            /Expected 24 backup words in line 1, got 23/);
+    });
+});
@@ -0,0 +1,166 @@
+/**
+ * Nimiq Cashlink Multisig Signatures Tests
+ * Unit tests for signing funding transactions of multisig accounts with MuSig2.
+ *
+ * Features:
+ * - Full signing rounds of co-signers, verified by @nimiq/core against a fixed multisig account
+ * - Round trip of exported commitments, nonces and partial signatures
+ * - Rejection of mismatching nonces, invalid partial signatures and wrong public keys
+ *
+ * These tests run offline and do not require a node.
+ */
+
+import { after, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import {
+    Address,
+    KeyPair,
+    PrivateKey,
+    SignatureProof,
+    type Transaction,
+    TransactionBuilder,
+} from '@nimiq/core';
+import {
+    combinePartialSignatures,
+    createMultisigCommitments,
+    createPartialSignatures,
+    exportMultisigCommitments,
+    exportMultisigNonces,
+    exportPartialSignatures,
+    importMultisigCommitments,
+    importMultisigNonces,
+    importPartialSignatures,
+    type MultisigCommitment,
+    type MultisigPartialSignature,
+    parsePublicKeys,
+} from '../src/multisig-signatures.ts';
+
+const folder = fs.mkdtempSync(path.join(os.tmpdir(), 'cashlink-multisig-test-'));
+after(() => fs.rmSync(folder, { recursive: true }));
+
+// Fixed 2 of 3 multisig account, as created by the Nimiq wallets for these public keys
+const KEY_PAIRS = ['11', '22', '33'].map((byte) => KeyPair.derive(PrivateKey.fromHex(byte.repeat(32))));
+const PUBLIC_KEYS = parsePublicKeys([
+    'd04ab232742bb4ab3a1368bd4615e4e6d0224ab71a016baf8520a332c9778737',
+    'a09aa5f47a6759802ff955f8dc2d2a14a5c99d23be97f864127ff9383455a4f0',
+    '17cb79fb2b4120f2b1ec65e4198d6e08b28e813feb01e4a400839b85e18080ce',
+].join());
+const MULTISIG_ADDRESS = Address.fromUserFriendlyAddress('NQ71 5EEM 0911 JQJ7 NVJ2 2JNL 14QB X7U5 7DX9');
+
+/**
+ * Builds unsigned transactions of a 2 of 3 multisig account
+ * @param tokens - Cashlink tokens to build a transaction for each
+ * @returns Unsigned transactions by cashlink token
+ */
+function buildTransactions(...tokens: string[]): Map</* token */ string, Transaction> {
+    return new Map(tokens.map((token, index) => [token,
+        TransactionBuilder.newBasic(MULTISIG_ADDRESS, KeyPair.generate().toAddress(), BigInt(100000 * (index + 1)),
+            0n, 1, 5)]));
+}
+
+/**
+ * Runs both signing rounds of co-signers
+ * @param transactions - Unsigned transactions by cashlink token
+ * @param keyPairs - Key pairs of the signing co-signers
+ * @returns Commitments and partial signatures of all co-signers by cashlink token
+ */
+function sign(transactions: Map</* token */ string, Transaction>, keyPairs: KeyPair[]): {
+    commitments: Map</* token */ string, MultisigCommitment[]>,
+    partialSignatures: Map</* token */ string, MultisigPartialSignature[]>,
+} {
+    const rounds = keyPairs.map(({ publicKey }) => createMultisigCommitments([...transactions.keys()], publicKey));
+    const commitments = new Map([...transactions.keys()].map((token) =>
+        [token, rounds.map((round) => round.commitments.get(token)!)]));
+    const signatures = keyPairs.map(({ privateKey }, index) =>
+        createPartialSignatures(transactions, commitments, rounds[index].nonces, privateKey));
+    const partialSignatures = new Map([...transactions.keys()].map((token) =>
+        [token, signatures.map((signature) => signature.get(token)!)]));
+    return { commitments, partialSignatures };
+}
+
+describe('multisig signatures', () => {
+    it('uses the key pairs of the fixed multisig account', () => {
+        assert.deepEqual(KEY_PAIRS.map(({ publicKey }) => publicKey.toHex()),
+            PUBLIC_KEYS.map((publicKey) => publicKey.toHex()));
+    });
+
+    it('combines partial signatures to transactions verified by @nimiq/core', () => {
+        const transactions = buildTransactions('abc123', 'def456');
+        const { commitments, partialSignatures } = sign(transactions, [KEY_PAIRS[2], KEY_PAIRS[0]]);
+        const signedTransactions = combinePartialSignatures(transactions, commitments, partialSignatures,
+            PUBLIC_KEYS);
+        assert.equal(signedTransactions.size, 2);
+        for (const [token, transaction] of signedTransactions) {
+            assert.doesNotThrow(() => transaction.verify(0));
+            assert.equal(transaction.hash(), transactions.get(token)!.hash());
+            const proof = SignatureProof.deserialize(transaction.proof);
+            assert.ok(proof.isSignedBy(MULTISIG_ADDRESS));
+            assert.ok(proof.verify(transaction.serializeContent()));
+        }
+    });
+
+    it('restores exported commitments, nonces and partial signatures', () => {
+        const transactions = buildTransactions('abc123');
+        const rounds = KEY_PAIRS.slice(0, 2).map(({ publicKey }, index) => {
+            const { commitments, nonces } = createMultisigCommitments(['abc123'], publicKey);
+            const commitmentsFile = path.join(folder, `commitments-${index}.csv`);
+            const noncesFile = path.join(folder, `nonces-${index}.csv`);
+            exportMultisigCommitments(commitments, commitmentsFile);
+            exportMultisigNonces(nonces, noncesFile);
+            assert.equal(fs.statSync(noncesFile).mode & 0o777, 0o600);
+            return { commitmentsFile, noncesFile };
+        });
+        const commitments = importMultisigCommitments(rounds.map(({ commitmentsFile }) => commitmentsFile));
+        const signaturesFiles = KEY_PAIRS.slice(0, 2).map(({ privateKey }, index) => {
+            const file = path.join(folder, `partial-signatures-${index}.csv`);
+            exportPartialSignatures(createPartialSignatures(transactions, commitments,
+                importMultisigNonces(rounds[index].noncesFile), privateKey), file);
+            return file;
+        });
+        const signedTransactions = combinePartialSignatures(transactions, commitments,
+            importPartialSignatures(signaturesFiles), PUBLIC_KEYS);
+        assert.doesNotThrow(() => signedTransactions.get('abc123')!.verify(0));
+    });
+
+    it('rejects nonces which do not match the own commitment', () => {
+        const transactions = buildTransactions('abc123');
+        const [first, second] = KEY_PAIRS.map(({ publicKey }) => createMultisigCommitments(['abc123'], publicKey));
+        const commitments = new Map([['abc123', [first.commitments.get('abc123')!,
+            second.commitments.get('abc123')!]]]);
+        const otherNonces = createMultisigCommitments(['abc123'], PUBLIC_KEYS[0]).nonces;
+        assert.throws(() => createPartialSignatures(transactions, commitments, otherNonces, KEY_PAIRS[0].privateKey),
+            /does not match the nonces/);
+        assert.throws(() => createPartialSignatures(transactions, commitments, second.nonces,
+            KEY_PAIRS[0].privateKey), /belong to a different co-signer/);
+    });
+
+    it('rejects invalid partial signatures', () => {
+        const transactions = buildTransactions('abc123');
+        const { commitments, partialSignatures } = sign(transactions, KEY_PAIRS.slice(0, 2));
+        // partial signature with other nonces than committed to
+        partialSignatures.get('abc123')![1] = sign(transactions, KEY_PAIRS.slice(0, 2)).partialSignatures
+            .get('abc123')![1];
+        assert.throws(() => combinePartialSignatures(transactions, commitments, partialSignatures, PUBLIC_KEYS),
+            /Invalid signature for Cashlink abc123/);
+    });
+
+    it('rejects partial signatures of co-signers without commitment', () => {
+        const transactions = buildTransactions('abc123');
+        const { commitments, partialSignatures } = sign(transactions, KEY_PAIRS.slice(0, 2));
+        commitments.set('abc123', commitments.get('abc123')!.slice(0, 1));
+        assert.throws(() => combinePartialSignatures(transactions, commitments, partialSignatures, PUBLIC_KEYS),
+            /not from the co-signers which committed/);
+    });
+
+    it('rejects public keys of a different multisig account', () => {
+        const transactions = buildTransactions('abc123');
+        const { commitments, partialSignatures } = sign(transactions, KEY_PAIRS.slice(0, 2));
+        assert.throws(() => combinePartialSignatures(transactions, commitments, partialSignatures,
+            [...PUBLIC_KEYS, KeyPair.generate().publicKey]), /do not belong to the multisig account/);
+        assert.throws(() => combinePartialSignatures(transactions, commitments, partialSignatures,
+            PUBLIC_KEYS.slice(1)), /is not listed in the public keys/);
+    });
+});
@@ -0,0 +1,67 @@
+/**
+ * Nimiq Cashlink Salt Backup Tests
+ * Unit tests for backing up secret salts as mnemonic words.
+ *
+ * Features:
+ * - Round trip of salts of one and multiple parts
+ * - Rejection of incomplete parts, invalid checksums and unsupported salt lengths
+ * - Fingerprints of restored salts
+ *
+ * These tests run offline and do not require a node.
+ */
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import crypto from 'crypto';
+import { getSaltFingerprint, mnemonicPartsToSalt, saltToMnemonicParts } from '../src/salt-backup.ts';
+
+describe('salt backup', () => {
+    it('restores salts of a single part', () => {
+        const salt = crypto.randomBytes(32).toString('base64');
+        const parts = saltToMnemonicParts(salt);
+        assert.equal(parts.length, 1);
+        assert.equal(parts[0].length, 24);
+        assert.equal(mnemonicPartsToSalt(parts), salt);
+    });
+
+    it('splits salts longer than 32 bytes into multiple parts and restores them', () => {
+        const salt = crypto.randomBytes(128).toString('base64'); // length of newly created salts
+        const parts = saltToMnemonicParts(salt);
+        assert.equal(parts.length, 4);
+        assert.ok(parts.every((words) => words.length === 24));
+        assert.equal(mnemonicPartsToSalt(parts), salt);
+        // words are accepted regardless of their case, e.g. as typed from the recovery sheet
+        assert.equal(mnemonicPartsToSalt(parts.map((words) => words.map((word) => word.toUpperCase()))), salt);
+    });
+
+    it('restores a different salt if parts are swapped', () => {
+        const salt = crypto.randomBytes(64).toString('base64');
+        const [first, second] = saltToMnemonicParts(salt);
+        const restoredSalt = mnemonicPartsToSalt([second, first]);
+        assert.notEqual(restoredSalt, salt);
+        assert.notEqual(getSaltFingerprint(restoredSalt), getSaltFingerprint(salt));
+    });
+
+    it('rejects salts which are not a multiple of 32 bytes', () => {
+        assert.throws(() => saltToMnemonicParts(crypto.randomBytes(48).toString('base64')), /multiples of 32 bytes/);
+        assert.throws(() => saltToMnemonicParts(''), /multiples of 32 bytes/);
+    });
+
+    it('rejects incomplete parts', () => {
+        const parts = saltToMnemonicParts(crypto.randomBytes(64).toString('base64'));
+        assert.throws(() => mnemonicPartsToSalt([parts[0], parts[1].slice(0, 23)]), /Part 2 has 23 instead of 24/);
+        assert.throws(() => mnemonicPartsToSalt([]), /No words/);
+    });
+
+    it('rejects parts with an invalid checksum', () => {
+        const [words] = saltToMnemonicParts(crypto.randomBytes(32).toString('base64'));
+        const typo = [...words.slice(0, 23), words[23] === 'abandon' ? 'ability' : 'abandon'];
+        assert.throws(() => mnemonicPartsToSalt([typo]), /Invalid words in part 1/);
+    });
+
+    it('computes stable fingerprints', () => {
+        const salt = crypto.randomBytes(32).toString('base64');
+        assert.match(getSaltFingerprint(salt), /^[0-9a-f]{8}$/);
+        assert.equal(getSaltFingerprint(mnemonicPartsToSalt(saltToMnemonicParts(salt))), getSaltFingerprint(salt));
+    });
+});
@@ -0,0 +1,51 @@
+/**
+ * Nimiq Cashlink Salt Encryption Tests
+ * Unit tests for encrypting secret salts under a passphrase.
+ *
+ * Features:
+ * - Round trip of encrypted salts
+ * - Rejection of wrong passphrases and tampered or malformed encrypted salts
+ *
+ * These tests run offline and do not require a node.
+ */
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import crypto from 'crypto';
+import { decryptSalt, encryptSalt, isEncryptedSalt } from '../src/salt-encryption.ts';
+
+const SALT = crypto.randomBytes(128).toString('base64');
+const PASSPHRASE = 'correct horse battery staple';
+
+describe('salt encryption', () => {
+    it('decrypts encrypted salts', async () => {
+        const encryptedSalt = await encryptSalt(SALT, PASSPHRASE);
+        assert.ok(isEncryptedSalt(encryptedSalt));
+        assert.ok(!encryptedSalt.includes(SALT));
+        assert.equal(await decryptSalt(encryptedSalt, PASSPHRASE), SALT);
+    });
+
+    it('encrypts the same salt differently each time', async () => {
+        assert.notEqual(await encryptSalt(SALT, PASSPHRASE), await encryptSalt(SALT, PASSPHRASE));
+    });
+
+    it('rejects wrong passphrases', async () => {
+        const encryptedSalt = await encryptSalt(SALT, PASSPHRASE);
+        await assert.rejects(decryptSalt(encryptedSalt, `${PASSPHRASE}!`), /Wrong passphrase/);
+    });
+
+    it('rejects tampered encrypted salts', async () => {
+        const encryptedSalt = await encryptSalt(SALT, PASSPHRASE);
+        const parts = encryptedSalt.split(':');
+        const ciphertext = Buffer.from(parts[parts.length - 2], 'base64');
+        ciphertext[0] ^= 1;
+        parts[parts.length - 2] = ciphertext.toString('base64');
+        await assert.rejects(decryptSalt(parts.join(':'), PASSPHRASE), /Wrong passphrase or corrupted/);
+    });
+
+    it('rejects unencrypted and malformed salts', async () => {
+        assert.ok(!isEncryptedSalt(SALT));
+        await assert.rejects(decryptSalt(SALT, PASSPHRASE), /not encrypted/);
+        await assert.rejects(decryptSalt('encrypted:scrypt-aes-256-gcm:17:abc', PASSPHRASE), /Malformed/);
+    });
+});